@@ -0,0 +1,56 @@
+import { issueRoomToken, refreshRoomToken } from "../../auth";
+
+const MAX_NAME_LENGTH = 64;
+const MAX_ROOM_LENGTH = 128;
+
+const isText = (value: unknown, max: number): value is string =>
+  typeof value === "string" && value.trim().length > 0 && value.length <= max;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * POST { roomId, displayName, avatarUrl? } → a new room token.
+ * POST { token } → a fresh token for the same participant.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    body = undefined;
+  }
+  // null, arrays and primitives are valid JSON but not a request
+  if (!isObject(body)) {
+    return Response.json({ error: "Expected a JSON body" }, { status: 400 });
+  }
+
+  if (typeof body.token === "string") {
+    const refreshed = refreshRoomToken(body.token);
+    if (!refreshed) {
+      return Response.json(
+        { error: "Token is invalid or expired" },
+        { status: 401 },
+      );
+    }
+    return Response.json(refreshed);
+  }
+
+  const { roomId, displayName, avatarUrl } = body;
+  if (!isText(roomId, MAX_ROOM_LENGTH)) {
+    return Response.json({ error: "roomId is required" }, { status: 400 });
+  }
+  if (!isText(displayName, MAX_NAME_LENGTH)) {
+    return Response.json(
+      { error: `Enter a name of up to ${MAX_NAME_LENGTH} characters` },
+      { status: 400 },
+    );
+  }
+  return Response.json(
+    issueRoomToken({
+      roomId,
+      displayName,
+      avatarUrl: typeof avatarUrl === "string" ? avatarUrl : undefined,
+    }),
+  );
+}
@@ -0,0 +1,5 @@
+// Autoplay policy may create a context suspended. Resuming only works once
+// the page has had a user gesture; until then the context stays silent.
+export function resumeAudioContext(context: AudioContext): void {
+  if (context.state === "suspended") context.resume().catch(() => {});
+}
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AudioProcessor,
+  DEFAULT_AUDIO_PROCESSING,
+  loadAudioProcessing,
+  saveAudioProcessing,
+} from "./audioProcessing";
+import {
+  FakeAudioContext,
+  FakeCompressorNode,
+  FakeGainNode,
+} from "./testing/fakeAudio";
+import { fakeTrack } from "./testing/fakeMediasoup";
+import { stubLocalStorage } from "./testing/fakeStorage";
+
+vi.mock("@sapphi-red/web-noise-suppressor", async () => {
+  const { FakeNoiseGateNode, FakeRnnoiseNode } =
+    await import("./testing/fakeAudio");
+  return {
+    NoiseGateWorkletNode: FakeNoiseGateNode,
+    RnnoiseWorkletNode: FakeRnnoiseNode,
+    loadRnnoise: async () => new ArrayBuffer(0),
+  };
+});
+
+const MIC_DEFAULTS: MediaTrackConstraints = { echoCancellation: true };
+
+describe("audio processing settings", () => {
+  let stored: Record<string, string>;
+
+  beforeEach(() => {
+    stored = stubLocalStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("starts from the defaults", () => {
+    expect(loadAudioProcessing()).toEqual(DEFAULT_AUDIO_PROCESSING);
+  });
+
+  it("remembers what was switched", () => {
+    saveAudioProcessing({ ...DEFAULT_AUDIO_PROCESSING, musicMode: true });
+
+    expect(loadAudioProcessing().musicMode).toBe(true);
+  });
+
+  it("keeps defaults for keys that are missing or mistyped", () => {
+    stored["nexus.audio"] = JSON.stringify({
+      noiseGate: true,
+      normalizeGain: "no",
+    });
+
+    expect(loadAudioProcessing()).toEqual({
+      ...DEFAULT_AUDIO_PROCESSING,
+      noiseGate: true,
+    });
+  });
+
+  it("falls back to the defaults when storage is unreadable", () => {
+    stored["nexus.audio"] = "{";
+
+    expect(loadAudioProcessing()).toEqual(DEFAULT_AUDIO_PROCESSING);
+  });
+});
+
+describe("AudioProcessor", () => {
+  let mic: MediaStreamTrack;
+  let applyConstraints: ReturnType<typeof vi.fn>;
+
+  function create(settings = DEFAULT_AUDIO_PROCESSING) {
+    return AudioProcessor.create(mic, settings, "/audio", MIC_DEFAULTS);
+  }
+
+  beforeEach(() => {
+    FakeAudioContext.instances = [];
+    FakeAudioContext.failingModule = undefined;
+    applyConstraints = vi.fn(async () => {});
+    mic = Object.assign(fakeTrack("audio"), { applyConstraints });
+    vi.stubGlobal("AudioContext", FakeAudioContext);
+    vi.stubGlobal("AudioWorkletNode", class {});
+    vi.stubGlobal("DynamicsCompressorNode", FakeCompressorNode);
+    vi.stubGlobal("GainNode", FakeGainNode);
+    vi.stubGlobal("MediaStream", class {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("switches noise suppression on and off without a new track", async () => {
+    const processor = await create();
+    const track = processor.track;
+    const context = FakeAudioContext.latest;
+    expect(context.chain()).toEqual([
+      "source",
+      "rnnoise",
+      "compressor",
+      "gain",
+      "destination",
+    ]);
+
+    await processor.setSettings({
+      ...DEFAULT_AUDIO_PROCESSING,
+      noiseSuppression: false,
+    });
+    expect(context.chain()).toEqual([
+      "source",
+      "compressor",
+      "gain",
+      "destination",
+    ]);
+
+    await processor.setSettings(DEFAULT_AUDIO_PROCESSING);
+    expect(context.chain()).toEqual([
+      "source",
+      "rnnoise",
+      "compressor",
+      "gain",
+      "destination",
+    ]);
+    expect(processor.track).toBe(track);
+    processor.stop();
+  });
+
+  it("bypasses the chain and the browser's processing in music mode", async () => {
+    const processor = await create();
+    expect(applyConstraints).not.toHaveBeenCalled();
+
+    await processor.setSettings({
+      ...DEFAULT_AUDIO_PROCESSING,
+      musicMode: true,
+    });
+    expect(FakeAudioContext.latest.chain()).toEqual(["source", "destination"]);
+    expect(applyConstraints).toHaveBeenLastCalledWith({
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    });
+
+    await processor.setSettings(DEFAULT_AUDIO_PROCESSING);
+    expect(applyConstraints).toHaveBeenLastCalledWith(MIC_DEFAULTS);
+    processor.stop();
+  });
+
+  it("lets go of everything when a worklet fails to load", async () => {
+    FakeAudioContext.failingModule = "noiseGate";
+
+    // the caller publishes the raw microphone instead
+    await expect(create()).rejects.toThrow("Failed to load");
+    expect(FakeAudioContext.latest.state).toBe("closed");
+    expect(mic.readyState).toBe("ended");
+  });
+
+  it("is unavailable without AudioWorklet", () => {
+    expect(AudioProcessor.isSupported()).toBe(true);
+    vi.stubGlobal("AudioWorkletNode", undefined);
+
+    expect(AudioProcessor.isSupported()).toBe(false);
+  });
+});
@@ -0,0 +1,249 @@
+import type {
+  NoiseGateWorkletNode,
+  RnnoiseWorkletNode,
+} from "@sapphi-red/web-noise-suppressor";
+import { resumeAudioContext } from "./audioContext";
+
+/* ─── Microphone processing ─────────────────────────────────────────────────
+   mic → RNNoise (AudioWorklet, WASM) → noise gate (AudioWorklet)
+       → compressor + makeup gain → MediaStreamAudioDestinationNode
+
+   The destination's track is what gets published. Changing a setting only
+   rewires the graph in front of it, so the producer never notices. Music
+   mode bypasses the whole chain and also asks the browser to drop its own
+   echo cancellation, noise suppression and gain control, which are tuned
+   for speech and mangle instruments.
+─────────────────────────────────────────────────────────────────────────── */
+
+export interface AudioProcessingSettings {
+  noiseSuppression: boolean;
+  noiseGate: boolean;
+  normalizeGain: boolean;
+  // overrides the three above
+  musicMode: boolean;
+}
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  noiseSuppression: true,
+  noiseGate: false,
+  normalizeGain: true,
+  musicMode: false,
+};
+
+const STORAGE_KEY = "nexus.audio";
+
+export function loadAudioProcessing(): AudioProcessingSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+    // Unknown or mistyped keys keep their defaults.
+    const settings = { ...DEFAULT_AUDIO_PROCESSING };
+    for (const key of Object.keys(settings) as (keyof typeof settings)[]) {
+      if (typeof saved[key] === "boolean") settings[key] = saved[key];
+    }
+    return settings;
+  } catch {
+    return { ...DEFAULT_AUDIO_PROCESSING };
+  }
+}
+
+export function saveAudioProcessing(settings: AudioProcessingSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // the defaults come back next time
+  }
+}
+
+// RNNoise works on 48 kHz frames only.
+const SAMPLE_RATE = 48000;
+const MAX_CHANNELS = 2;
+// Open the gate above -50 dBFS, close it below -60 after 150 ms of quiet.
+const GATE = { openThreshold: -50, closeThreshold: -60, holdMs: 150 };
+// Gentle levelling for speech, then makeup for what it takes off.
+const COMPRESSOR = {
+  threshold: -24,
+  knee: 30,
+  ratio: 4,
+  attack: 0.003,
+  release: 0.25,
+};
+const MAKEUP_GAIN = 1.6;
+
+// Constraints for the raw mic: the browser's processing off in music mode.
+function micConstraints(
+  defaults: MediaTrackConstraints,
+  musicMode: boolean,
+): MediaTrackConstraints {
+  return musicMode
+    ? {
+        ...defaults,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      }
+    : defaults;
+}
+
+/**
+ * Runs a microphone track through the chain above. The processor owns the
+ * source track it is given and stops it along with everything else.
+ */
+export class AudioProcessor {
+  private sourceNode: MediaStreamAudioSourceNode;
+  private destination: MediaStreamAudioDestinationNode;
+  private compressor: DynamicsCompressorNode;
+  private makeup: GainNode;
+  private current: AudioProcessingSettings;
+
+  public static isSupported(): boolean {
+    return (
+      typeof AudioWorkletNode !== "undefined" &&
+      typeof WebAssembly !== "undefined"
+    );
+  }
+
+  /**
+   * Loads the worklets and the RNNoise model into a fresh AudioContext —
+   * call it from a click handler so the context may start.
+   */
+  public static async create(
+    sourceTrack: MediaStreamTrack,
+    settings: AudioProcessingSettings,
+    assetsUrl: string,
+    // the constraints the mic was opened with
+    micDefaults: MediaTrackConstraints,
+  ): Promise<AudioProcessor> {
+    const context = new AudioContext({ sampleRate: SAMPLE_RATE });
+    let processor: AudioProcessor | undefined;
+    try {
+      // Loaded on first use; the module touches AudioWorkletNode at import.
+      const { NoiseGateWorkletNode, RnnoiseWorkletNode, loadRnnoise } =
+        await import("@sapphi-red/web-noise-suppressor");
+      const [wasmBinary] = await Promise.all([
+        loadRnnoise({
+          url: `${assetsUrl}/rnnoise.wasm`,
+          simdUrl: `${assetsUrl}/rnnoise_simd.wasm`,
+        }),
+        context.audioWorklet.addModule(
+          `${assetsUrl}/rnnoise/workletProcessor.js`,
+        ),
+        context.audioWorklet.addModule(
+          `${assetsUrl}/noiseGate/workletProcessor.js`,
+        ),
+      ]);
+      processor = new AudioProcessor(
+        context,
+        sourceTrack,
+        new RnnoiseWorkletNode(context, {
+          maxChannels: MAX_CHANNELS,
+          wasmBinary,
+        }),
+        new NoiseGateWorkletNode(context, {
+          ...GATE,
+          maxChannels: MAX_CHANNELS,
+        }),
+        micDefaults,
+        settings,
+      );
+      await processor.setSettings(settings);
+      return processor;
+    } catch (error) {
+      if (processor) {
+        processor.stop();
+      } else {
+        context.close().catch(() => {});
+        sourceTrack.stop();
+      }
+      throw error;
+    }
+  }
+
+  private constructor(
+    private context: AudioContext,
+    private sourceTrack: MediaStreamTrack,
+    private rnnoise: RnnoiseWorkletNode,
+    private gate: NoiseGateWorkletNode,
+    private micDefaults: MediaTrackConstraints,
+    settings: AudioProcessingSettings,
+  ) {
+    this.current = settings;
+    this.sourceNode = this.sourceNodeFor(sourceTrack);
+    this.destination = context.createMediaStreamDestination();
+    this.compressor = new DynamicsCompressorNode(context, COMPRESSOR);
+    this.makeup = new GainNode(context, { gain: MAKEUP_GAIN });
+    resumeAudioContext(context);
+  }
+
+  /** What to publish. */
+  public get track(): MediaStreamTrack {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  /** The microphone being processed. */
+  public get source(): MediaStreamTrack {
+    return this.sourceTrack;
+  }
+
+  public get settings(): AudioProcessingSettings {
+    return this.current;
+  }
+
+  /** Applies new settings in place; the output track stays the same. */
+  public async setSettings(settings: AudioProcessingSettings): Promise<void> {
+    const musicModeChanged = settings.musicMode !== this.current.musicMode;
+    this.current = settings;
+    this.rewire();
+    // also on the first call, which finds nothing changed
+    if (musicModeChanged || settings.musicMode) {
+      await this.sourceTrack.applyConstraints(
+        micConstraints(this.micDefaults, settings.musicMode),
+      );
+    }
+  }
+
+  /** Processes another microphone from now on, stopping the previous one. */
+  public async setSource(track: MediaStreamTrack): Promise<void> {
+    if (track === this.sourceTrack) return;
+    this.sourceNode.disconnect();
+    this.sourceTrack.stop();
+    this.sourceTrack = track;
+    this.sourceNode = this.sourceNodeFor(track);
+    this.rewire();
+    if (this.current.musicMode) {
+      await track.applyConstraints(micConstraints(this.micDefaults, true));
+    }
+  }
+
+  public stop(): void {
+    this.sourceNode.disconnect();
+    this.rnnoise.destroy();
+    this.sourceTrack.stop();
+    this.track.stop();
+    this.context.close().catch(() => {});
+  }
+
+  private sourceNodeFor(track: MediaStreamTrack): MediaStreamAudioSourceNode {
+    // A clone keeps the lobby's mute; ours follows the published track.
+    track.enabled = true;
+    return this.context.createMediaStreamSource(new MediaStream([track]));
+  }
+
+  // source → whichever stages are on → destination
+  private rewire(): void {
+    const stages = [this.rnnoise, this.gate, this.compressor, this.makeup];
+    this.sourceNode.disconnect();
+    stages.forEach((node) => node.disconnect());
+
+    const { noiseSuppression, noiseGate, normalizeGain, musicMode } =
+      this.current;
+    const chain: AudioNode[] = [this.sourceNode];
+    if (!musicMode) {
+      if (noiseSuppression) chain.push(this.rnnoise);
+      if (noiseGate) chain.push(this.gate);
+      if (normalizeGain) chain.push(this.compressor, this.makeup);
+    }
+    chain.push(this.destination);
+    chain.reduce((from, to) => from.connect(to));
+  }
+}
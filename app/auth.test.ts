@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  issueRoomToken,
+  refreshRoomToken,
+  signRoomToken,
+  verifyRoomToken,
+} from "./auth";
+
+const claims = {
+  sub: "participant-1",
+  room: "room-1",
+  name: "Ada",
+  role: "guest" as const,
+  iat: 1_000,
+  exp: 2_000,
+};
+
+describe("room tokens", () => {
+  it("round-trips claims through sign and verify", () => {
+    const token = signRoomToken(claims, "secret");
+    expect(
+      verifyRoomToken(token, { secret: "secret", now: 1_500_000 }),
+    ).toEqual(claims);
+  });
+
+  it("rejects a token signed with another secret or edited", () => {
+    const token = signRoomToken(claims, "secret");
+    const [header, , sig] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, role: "host" }),
+    ).toString("base64url");
+
+    expect(
+      verifyRoomToken(token, { secret: "other", now: 1_500_000 }),
+    ).toBeNull();
+    expect(
+      verifyRoomToken(`${header}.${forged}.${sig}`, {
+        secret: "secret",
+        now: 1_500_000,
+      }),
+    ).toBeNull();
+  });
+
+  it("rejects expired tokens unless within the grace period", () => {
+    const token = signRoomToken(claims, "secret");
+    expect(
+      verifyRoomToken(token, { secret: "secret", now: 2_500_000 }),
+    ).toBeNull();
+    expect(
+      verifyRoomToken(token, {
+        secret: "secret",
+        graceS: 1_000,
+        now: 2_500_000,
+      }),
+    ).toEqual(claims);
+  });
+
+  it("makes the first participant of a room its host", () => {
+    const first = issueRoomToken({ roomId: "hosted", displayName: " Ada " });
+    const second = issueRoomToken({ roomId: "hosted", displayName: "Grace" });
+
+    expect(first.identity).toMatchObject({ displayName: "Ada", role: "host" });
+    expect(second.identity.role).toBe("guest");
+    expect(second.identity.participantId).not.toBe(
+      first.identity.participantId,
+    );
+  });
+
+  it("drops avatar URLs that aren't https or same-origin", () => {
+    const issue = (avatarUrl: string) =>
+      issueRoomToken({ roomId: "avatars", displayName: "Ada", avatarUrl })
+        .identity.avatarUrl;
+
+    expect(issue("https://cdn.example.com/ada.png")).toBe(
+      "https://cdn.example.com/ada.png",
+    );
+    expect(issue("/avatars/ada.png")).toBe("/avatars/ada.png");
+    expect(issue("javascript:alert(1)")).toBeUndefined();
+    expect(issue("//evil.example.com/x.png")).toBeUndefined();
+  });
+
+  it("refreshes a token for the same participant and role", () => {
+    const { token, identity } = issueRoomToken({
+      roomId: "refresh",
+      displayName: "Ada",
+    });
+
+    expect(refreshRoomToken(token)?.identity).toEqual(identity);
+    expect(refreshRoomToken("not.a.token")).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { ParticipantIdentity, ParticipantRole } from "./signaling";
+
+/* ─── Room tokens ───────────────────────────────────────────────────────────
+   HS256 JWTs scoped to one room. The signaling server verifies them with
+   the same AUTH_TOKEN_SECRET and takes the participant id, name and role
+   from the claims instead of trusting what the client says.
+
+   Authentication itself is a local stub: anyone gets a token for the name
+   they type, and the first person to ask for a room becomes its host.
+   Replace `authenticate` with a real identity provider.
+─────────────────────────────────────────────────────────────────────────── */
+
+export interface RoomTokenClaims {
+  // participant id
+  sub: string;
+  room: string;
+  name: string;
+  avatar?: string;
+  role: ParticipantRole;
+  // seconds since epoch
+  iat: number;
+  exp: number;
+}
+
+export interface RoomTokenGrant {
+  token: string;
+  identity: ParticipantIdentity;
+  // ms since epoch
+  expiresAt: number;
+}
+
+export interface ProfileRequest {
+  roomId: string;
+  displayName: string;
+  avatarUrl?: string;
+}
+
+const TOKEN_TTL_S = 60 * 60;
+// An expired token can still be refreshed for this long, so a laptop that
+// slept through the expiry can rejoin as the same participant.
+const REFRESH_GRACE_S = 24 * 60 * 60;
+const DEV_SECRET = "nexus-dev-secret-do-not-use-in-production";
+
+// first participant per room, who becomes its host
+const roomHosts = new Map<string, string>();
+
+function tokenSecret(): string {
+  const secret = process.env.AUTH_TOKEN_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_TOKEN_SECRET is not set");
+  }
+  return DEV_SECRET;
+}
+
+const base64url = (data: string | Buffer) =>
+  Buffer.from(data).toString("base64url");
+
+function signature(unsigned: string, secret: string): string {
+  return createHmac("sha256", secret).update(unsigned).digest("base64url");
+}
+
+export function signRoomToken(
+  claims: RoomTokenClaims,
+  secret = tokenSecret(),
+): string {
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify(claims));
+  return `${header}.${payload}.${signature(`${header}.${payload}`, secret)}`;
+}
+
+/**
+ * Returns the claims of a token signed with `secret`, or null when it is
+ * malformed, tampered with or expired more than `graceS` seconds ago.
+ */
+export function verifyRoomToken(
+  token: string,
+  { secret = tokenSecret(), graceS = 0, now = Date.now() } = {},
+): RoomTokenClaims | null {
+  const [header, payload, sig] = token.split(".");
+  if (!header || !payload || !sig) return null;
+
+  const expected = Buffer.from(signature(`${header}.${payload}`, secret));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(
+      Buffer.from(payload, "base64url").toString(),
+    ) as RoomTokenClaims;
+    if (typeof claims.exp !== "number") return null;
+    return claims.exp + graceS > now / 1000 ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+// Only links that are safe to load as an avatar image.
+function sanitizeAvatarUrl(url?: string): string | undefined {
+  if (!url) return undefined;
+  if (url.startsWith("/") && !url.startsWith("//")) return url;
+  try {
+    return new URL(url).protocol === "https:" ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Local stand-in for a real login: trusts the profile it is given.
+function authenticate({
+  roomId,
+  displayName,
+  avatarUrl,
+}: ProfileRequest): ParticipantIdentity {
+  const participantId = `participant-${randomBytes(6).toString("hex")}`;
+  if (!roomHosts.has(roomId)) roomHosts.set(roomId, participantId);
+  return {
+    participantId,
+    displayName: displayName.trim(),
+    avatarUrl: sanitizeAvatarUrl(avatarUrl),
+    role: roomHosts.get(roomId) === participantId ? "host" : "guest",
+  };
+}
+
+function grant(roomId: string, identity: ParticipantIdentity): RoomTokenGrant {
+  const iat = Math.floor(Date.now() / 1000);
+  const exp = iat + TOKEN_TTL_S;
+  const token = signRoomToken({
+    sub: identity.participantId,
+    room: roomId,
+    name: identity.displayName,
+    avatar: identity.avatarUrl,
+    role: identity.role,
+    iat,
+    exp,
+  });
+  return { token, identity, expiresAt: exp * 1000 };
+}
+
+/** Signs in with a display name and issues a token for one room. */
+export function issueRoomToken(profile: ProfileRequest): RoomTokenGrant {
+  return grant(profile.roomId, authenticate(profile));
+}
+
+/**
+ * Issues a fresh token for the same participant, room and role. Returns
+ * null when the old token is invalid or too long expired.
+ */
+export function refreshRoomToken(token: string): RoomTokenGrant | null {
+  const claims = verifyRoomToken(token, { graceS: REFRESH_GRACE_S });
+  if (!claims) return null;
+  return grant(claims.room, {
+    participantId: claims.sub,
+    displayName: claims.name,
+    avatarUrl: claims.avatar,
+    role: claims.role,
+  });
+}
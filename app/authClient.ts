@@ -0,0 +1,30 @@
+import type { RoomTokenGrant } from "./auth";
+
+/* ─── Room tokens, from the browser side ─────────────────────────────────── */
+
+async function post(body: object): Promise<RoomTokenGrant> {
+  const response = await fetch("/api/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error ?? `Token request failed (${response.status})`);
+  }
+  return data as RoomTokenGrant;
+}
+
+/** Signs in as `displayName` and returns a token for `roomId`. */
+export function requestRoomToken(
+  roomId: string,
+  displayName: string,
+  avatarUrl?: string,
+): Promise<RoomTokenGrant> {
+  return post({ roomId, displayName, avatarUrl });
+}
+
+/** Exchanges a (possibly expired) token for a fresh one. */
+export async function refreshRoomToken(token: string): Promise<string> {
+  return (await post({ token })).token;
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  LoadGovernor,
+  NO_EFFECT,
+  QUALITY_LEVELS,
+  loadBackgroundEffect,
+  saveBackgroundEffect,
+} from "./backgroundEffects";
+import { stubLocalStorage } from "./testing/fakeStorage";
+
+// Feeds one averaging window of frames at `load` × the budget.
+function feed(governor: LoadGovernor, load: number, windows = 1): void {
+  for (let i = 0; i < windows * 30; i++) governor.record(load * 33, 33);
+}
+
+describe("LoadGovernor", () => {
+  it("steps down one level per overloaded window", () => {
+    const changes: number[] = [];
+    const governor = new LoadGovernor(QUALITY_LEVELS.length, (level) =>
+      changes.push(level),
+    );
+
+    feed(governor, 0.9, 2);
+
+    expect(governor.level).toBe(2);
+    expect(changes).toEqual([1, 2]);
+  });
+
+  it("decides nothing before a whole window is in", () => {
+    const governor = new LoadGovernor(QUALITY_LEVELS.length);
+    for (let i = 0; i < 29; i++) governor.record(100, 33);
+
+    expect(governor.level).toBe(0);
+  });
+
+  it("only steps back up after several calm windows in a row", () => {
+    const governor = new LoadGovernor(QUALITY_LEVELS.length);
+    feed(governor, 0.9);
+
+    feed(governor, 0.1, 2);
+    feed(governor, 0.5);
+    feed(governor, 0.1, 2);
+    expect(governor.level).toBe(1);
+
+    feed(governor, 0.1);
+    expect(governor.level).toBe(0);
+  });
+
+  it("stays within the available levels", () => {
+    const governor = new LoadGovernor(2);
+
+    feed(governor, 2, 5);
+    expect(governor.level).toBe(1);
+    feed(governor, 0, 20);
+    expect(governor.level).toBe(0);
+  });
+});
+
+describe("background preference", () => {
+  let stored: Record<string, string>;
+
+  beforeEach(() => {
+    stored = stubLocalStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("remembers the chosen effect", () => {
+    saveBackgroundEffect({ type: "image", url: "/backgrounds/dusk.svg" });
+
+    expect(loadBackgroundEffect()).toEqual({
+      type: "image",
+      url: "/backgrounds/dusk.svg",
+    });
+  });
+
+  it("falls back to no effect for anything unreadable", () => {
+    expect(loadBackgroundEffect()).toEqual(NO_EFFECT);
+    stored["nexus.background"] = "{";
+    expect(loadBackgroundEffect()).toEqual(NO_EFFECT);
+    stored["nexus.background"] = JSON.stringify({ type: "image" });
+    expect(loadBackgroundEffect()).toEqual(NO_EFFECT);
+  });
+});
@@ -0,0 +1,393 @@
+import type { ImageSegmenter } from "@mediapipe/tasks-vision";
+import type { SegmentationAssets } from "./config";
+
+/* ─── Virtual backgrounds ───────────────────────────────────────────────────
+   The camera is drawn into a canvas, a person segmentation model (MediaPipe
+   selfie segmenter, WASM on the CPU) marks which pixels are us, and
+   everything else is blurred or swapped for an image. The canvas's capture
+   track is what gets published, via replaceTrack, so switching effects
+   never renegotiates.
+
+   Every frame is timed against its budget. When the machine can't keep up
+   the pipeline steps down — fewer frames, then a mask reused across frames —
+   and steps back up once things calm down.
+─────────────────────────────────────────────────────────────────────────── */
+
+export type BackgroundEffect =
+  { type: "none" } | { type: "blur" } | { type: "image"; url: string };
+
+export const NO_EFFECT: BackgroundEffect = { type: "none" };
+
+// Served from public/backgrounds.
+export const BACKGROUND_IMAGES = [
+  { label: "Studio", url: "/backgrounds/studio.svg" },
+  { label: "Aurora", url: "/backgrounds/aurora.svg" },
+  { label: "Dusk", url: "/backgrounds/dusk.svg" },
+];
+
+export const sameEffect = (a: BackgroundEffect, b: BackgroundEffect) =>
+  a.type === b.type &&
+  (a.type !== "image" || (b.type === "image" && a.url === b.url));
+
+const STORAGE_KEY = "nexus.background";
+
+export function loadBackgroundEffect(): BackgroundEffect {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const effect = raw ? (JSON.parse(raw) as BackgroundEffect) : NO_EFFECT;
+    return effect.type === "blur" ||
+      (effect.type === "image" && typeof effect.url === "string")
+      ? effect
+      : NO_EFFECT;
+  } catch {
+    return NO_EFFECT;
+  }
+}
+
+export function saveBackgroundEffect(effect: BackgroundEffect): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(effect));
+  } catch {
+    // next time starts without an effect
+  }
+}
+
+/* ─── Load governor ──────────────────────────────────────────────────────── */
+
+export interface ProcessingQuality {
+  fps: number;
+  // run the model on every Nth frame, reusing the last mask in between
+  segmentEvery: number;
+}
+
+// Best first; the governor only ever moves one step at a time.
+export const QUALITY_LEVELS: ProcessingQuality[] = [
+  { fps: 30, segmentEvery: 1 },
+  { fps: 24, segmentEvery: 1 },
+  { fps: 15, segmentEvery: 1 },
+  { fps: 15, segmentEvery: 2 },
+  { fps: 10, segmentEvery: 3 },
+];
+
+// Averages over this many frames before deciding anything.
+const WINDOW = 30;
+// Share of the frame budget spent processing.
+const STEP_DOWN_LOAD = 0.7;
+const STEP_UP_LOAD = 0.35;
+// Calm windows in a row before stepping back up, so it doesn't flap.
+const CALM_WINDOWS = 3;
+
+/**
+ * Picks a quality level from how long frames take to process. Pure
+ * bookkeeping — the caller times the frames.
+ */
+export class LoadGovernor {
+  private samples: number[] = [];
+  private calm = 0;
+  private current = 0;
+
+  constructor(
+    private readonly levels: number,
+    private readonly onChange?: (level: number) => void,
+  ) {}
+
+  public get level(): number {
+    return this.current;
+  }
+
+  /** Records one frame's processing time against its budget. */
+  public record(elapsedMs: number, budgetMs: number): void {
+    this.samples.push(elapsedMs / budgetMs);
+    if (this.samples.length < WINDOW) return;
+    const load =
+      this.samples.reduce((sum, sample) => sum + sample, 0) /
+      this.samples.length;
+    this.samples = [];
+
+    if (load > STEP_DOWN_LOAD) {
+      this.calm = 0;
+      this.step(1);
+    } else if (load < STEP_UP_LOAD && ++this.calm >= CALM_WINDOWS) {
+      this.calm = 0;
+      this.step(-1);
+    } else if (load >= STEP_UP_LOAD) {
+      this.calm = 0;
+    }
+  }
+
+  private step(by: number): void {
+    const level = Math.min(Math.max(this.current + by, 0), this.levels - 1);
+    if (level === this.current) return;
+    this.current = level;
+    // a new level changes the budget; old samples no longer compare
+    this.samples = [];
+    this.onChange?.(level);
+  }
+}
+
+/* ─── Processor ──────────────────────────────────────────────────────────── */
+
+const BLUR_PX = 12;
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Couldn't load ${url}`));
+    image.src = url;
+  });
+}
+
+function context2dOf(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const context2d = canvas.getContext("2d");
+  if (!context2d) throw new Error("Canvas 2D not available");
+  return context2d;
+}
+
+async function createSegmenter(
+  assets: SegmentationAssets,
+): Promise<ImageSegmenter> {
+  // Loaded on first use; most calls never need it.
+  const { FilesetResolver, ImageSegmenter } =
+    await import("@mediapipe/tasks-vision");
+  const fileset = await FilesetResolver.forVisionTasks(assets.wasmUrl);
+  return ImageSegmenter.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: assets.modelUrl, delegate: "CPU" },
+    runningMode: "VIDEO",
+    outputConfidenceMasks: true,
+    outputCategoryMask: false,
+  });
+}
+
+/**
+ * Turns a camera track into one with its background blurred or replaced.
+ * The processor owns the source track it is given (pass a clone to keep
+ * using the camera elsewhere) and tears itself down once its output track
+ * is stopped, so whoever publishes the output needn't know it exists.
+ */
+export class BackgroundProcessor {
+  private video = document.createElement("video");
+  private canvas = document.createElement("canvas");
+  private context2d = context2dOf(this.canvas);
+  // the camera frame cut out along the mask
+  private person = document.createElement("canvas");
+  private personContext = context2dOf(this.person);
+  // the model's confidence, as alpha, at the model's resolution
+  private mask = document.createElement("canvas");
+  private maskContext = context2dOf(this.mask);
+  private maskPixels: ImageData | null = null;
+  private image: HTMLImageElement | null = null;
+  private governor: LoadGovernor;
+  private output: MediaStreamTrack;
+  private timer?: ReturnType<typeof setTimeout>;
+  private frame = 0;
+  private stopped = false;
+  private current: BackgroundEffect = NO_EFFECT;
+  // bumped by setEffect, so a slow image load can't apply a stale choice
+  private effectVersion = 0;
+  /** Called when CPU load moves the pipeline to another quality level. */
+  public onQualityChange?: (quality: ProcessingQuality) => void;
+
+  public static isSupported(): boolean {
+    return (
+      typeof WebAssembly !== "undefined" &&
+      typeof HTMLCanvasElement !== "undefined" &&
+      "captureStream" in HTMLCanvasElement.prototype
+    );
+  }
+
+  /** Loads the model, then starts drawing `source` with `effect`. */
+  public static async create(
+    source: MediaStreamTrack,
+    effect: BackgroundEffect,
+    assets: SegmentationAssets,
+  ): Promise<BackgroundProcessor> {
+    let processor: BackgroundProcessor | undefined;
+    try {
+      processor = new BackgroundProcessor(
+        source,
+        await createSegmenter(assets),
+      );
+      await processor.setEffect(effect);
+      return processor;
+    } catch (error) {
+      if (processor) processor.stop();
+      else source.stop();
+      throw error;
+    }
+  }
+
+  private constructor(
+    private sourceTrack: MediaStreamTrack,
+    private segmenter: ImageSegmenter,
+  ) {
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.attach(sourceTrack);
+    this.governor = new LoadGovernor(QUALITY_LEVELS.length, (level) => {
+      console.log(`Background processing stepped to level ${level}`);
+      this.onQualityChange?.(QUALITY_LEVELS[level]);
+    });
+    this.output = this.canvas
+      .captureStream(QUALITY_LEVELS[0].fps)
+      .getVideoTracks()[0];
+    this.tick();
+  }
+
+  /** What to publish. Stopping it stops the processor. */
+  public get track(): MediaStreamTrack {
+    return this.output;
+  }
+
+  /** The camera behind it; clone it to go back to the unprocessed feed. */
+  public get source(): MediaStreamTrack {
+    return this.sourceTrack;
+  }
+
+  public get effect(): BackgroundEffect {
+    return this.current;
+  }
+
+  public get quality(): ProcessingQuality {
+    return QUALITY_LEVELS[this.governor.level];
+  }
+
+  /** Switches effect in place; the output track stays the same. */
+  public async setEffect(effect: BackgroundEffect): Promise<void> {
+    const version = ++this.effectVersion;
+    const image = effect.type === "image" ? await loadImage(effect.url) : null;
+    if (version !== this.effectVersion) return;
+    this.image = image;
+    this.current = effect;
+  }
+
+  /** Processes another camera from now on, stopping the previous one. */
+  public setSource(track: MediaStreamTrack): void {
+    if (track === this.sourceTrack) return;
+    this.sourceTrack.stop();
+    this.sourceTrack = track;
+    this.attach(track);
+  }
+
+  public stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.video.pause();
+    this.video.srcObject = null;
+    this.sourceTrack.stop();
+    this.output.stop();
+    this.segmenter.close();
+  }
+
+  private attach(track: MediaStreamTrack): void {
+    // A clone keeps the lobby's camera-off state; ours follows the output.
+    track.enabled = true;
+    this.video.srcObject = new MediaStream([track]);
+    this.video.play().catch(() => {});
+  }
+
+  private tick = () => {
+    if (this.output.readyState === "ended") {
+      this.stop();
+      return;
+    }
+    const { fps } = this.quality;
+    const started = performance.now();
+    try {
+      this.draw();
+    } catch (error) {
+      console.error("Error processing background:", error);
+    }
+    this.governor.record(performance.now() - started, 1000 / fps);
+    this.timer = setTimeout(this.tick, 1000 / fps);
+  };
+
+  private draw(): void {
+    const { video, canvas } = this;
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+    const width = video.videoWidth;
+    const height = video.videoHeight;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = this.person.width = width;
+      canvas.height = this.person.height = height;
+    }
+
+    const ctx = this.context2d;
+    if (this.current.type === "none") {
+      ctx.drawImage(video, 0, 0, width, height);
+      return;
+    }
+
+    if (this.frame++ % this.quality.segmentEvery === 0 || !this.maskPixels) {
+      this.segment();
+    }
+
+    // Us: the frame, kept only where the mask says so.
+    const person = this.personContext;
+    person.globalCompositeOperation = "copy";
+    person.drawImage(video, 0, 0, width, height);
+    person.globalCompositeOperation = "destination-in";
+    person.drawImage(this.mask, 0, 0, width, height);
+
+    // Behind us: the same frame blurred, or the chosen image.
+    if (this.image) {
+      this.drawCover(this.image, width, height);
+    } else {
+      ctx.filter = `blur(${BLUR_PX}px)`;
+      ctx.drawImage(video, 0, 0, width, height);
+      ctx.filter = "none";
+    }
+    ctx.drawImage(this.person, 0, 0);
+  }
+
+  private segment(): void {
+    const result = this.segmenter.segmentForVideo(
+      this.video,
+      performance.now(),
+    );
+    try {
+      const mask = result.confidenceMasks?.[0];
+      if (!mask) return;
+      if (
+        !this.maskPixels ||
+        this.maskPixels.width !== mask.width ||
+        this.maskPixels.height !== mask.height
+      ) {
+        this.mask.width = mask.width;
+        this.mask.height = mask.height;
+        this.maskPixels = this.maskContext.createImageData(
+          mask.width,
+          mask.height,
+        );
+      }
+      const confidence = mask.getAsFloat32Array();
+      const pixels = this.maskPixels.data;
+      for (let i = 0; i < confidence.length; i++) {
+        pixels[i * 4 + 3] = confidence[i] * 255;
+      }
+      this.maskContext.putImageData(this.maskPixels, 0, 0);
+    } finally {
+      result.close();
+    }
+  }
+
+  // object-fit: cover
+  private drawCover(image: HTMLImageElement, width: number, height: number) {
+    const scale = Math.max(width / image.width, height / image.height);
+    const sw = width / scale;
+    const sh = height / scale;
+    this.context2d.drawImage(
+      image,
+      (image.width - sw) / 2,
+      (image.height - sh) / 2,
+      sw,
+      sh,
+      0,
+      0,
+      width,
+      height,
+    );
+  }
+}
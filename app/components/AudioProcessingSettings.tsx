@@ -0,0 +1,46 @@
+import React from "react";
+import type { AudioProcessingSettings as Settings } from "../audioProcessing";
+
+/* ─── Microphone processing switches ─────────────────────────────────────── */
+const OPTIONS: { key: keyof Settings; label: string }[] = [
+  { key: "noiseSuppression", label: "Noise suppression" },
+  { key: "noiseGate", label: "Noise gate" },
+  { key: "normalizeGain", label: "Normalize volume" },
+  { key: "musicMode", label: "Music mode (original sound)" },
+];
+
+export function AudioProcessingSettings({
+  value,
+  onChange,
+}: {
+  value: Settings;
+  onChange: (settings: Settings) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1.5 text-xs">
+      <span style={{ color: "rgba(255,255,255,0.4)", letterSpacing: "0.06em" }}>
+        Microphone
+      </span>
+      {OPTIONS.map(({ key, label }) => (
+        <label
+          key={key}
+          className="flex items-center gap-2"
+          style={{
+            color: "rgba(255,255,255,0.82)",
+            // music mode switches the rest off without forgetting them
+            opacity: key !== "musicMode" && value.musicMode ? 0.4 : 1,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={value[key]}
+            disabled={key !== "musicMode" && value.musicMode}
+            onChange={(e) => onChange({ ...value, [key]: e.target.checked })}
+            style={{ accentColor: "rgb(99,102,241)" }}
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
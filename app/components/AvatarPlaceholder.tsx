@@ -0,0 +1,45 @@
+/* ─── Avatar placeholder: stands in for a paused or missing video ────────── */
+function initialsOf(label: string): string {
+  const words = label.split(/[-_\s]+/).filter(Boolean);
+  return words
+    .slice(0, 2)
+    .map((w) => w[0])
+    .join("")
+    .toUpperCase();
+}
+
+export function AvatarPlaceholder({
+  label,
+  isLocal,
+  avatarUrl,
+}: {
+  label: string;
+  isLocal: boolean;
+  avatarUrl?: string;
+}) {
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center"
+      style={{ background: "#0a0a12" }}
+    >
+      <div
+        className="flex items-center justify-center h-20 w-20 rounded-full text-2xl font-semibold"
+        style={{
+          background: isLocal
+            ? "linear-gradient(135deg,rgba(99,102,241,0.35),rgba(99,102,241,0.12))"
+            : "linear-gradient(135deg,rgba(6,182,212,0.3),rgba(6,182,212,0.1))",
+          border: `1px solid ${isLocal ? "rgba(99,102,241,0.45)" : "rgba(6,182,212,0.35)"}`,
+          color: isLocal ? "#c7d2fe" : "#a5f3fc",
+          letterSpacing: "0.04em",
+          ...(avatarUrl && {
+            backgroundImage: `url(${JSON.stringify(avatarUrl)})`,
+            backgroundSize: "cover",
+            backgroundPosition: "center",
+          }),
+        }}
+      >
+        {!avatarUrl && initialsOf(label)}
+      </div>
+    </div>
+  );
+}
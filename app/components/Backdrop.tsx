@@ -0,0 +1,93 @@
+"use client";
+
+import React, { useRef, Suspense } from "react";
+import { Canvas, useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+
+/* ─── Random offsets computed once at module level (not during render) ── */
+const ORB_OFFSETS = [
+  Math.random() * 100,
+  Math.random() * 100,
+  Math.random() * 100,
+];
+
+/* ─── R3F ────────────────────────────────────────────────────────────────── */
+function AmbientOrb({
+  position,
+  color,
+  speed,
+  offset,
+}: {
+  position: [number, number, number];
+  color: string;
+  speed: number;
+  offset: number;
+}) {
+  const mesh = useRef<THREE.Mesh>(null);
+  const t = useRef(offset);
+  useFrame((_, d) => {
+    t.current += d * speed;
+    if (!mesh.current) return;
+    mesh.current.position.y = position[1] + Math.sin(t.current) * 0.5;
+    mesh.current.position.x = position[0] + Math.cos(t.current * 0.6) * 0.35;
+    (mesh.current.material as THREE.MeshStandardMaterial).opacity =
+      0.1 + Math.abs(Math.sin(t.current * 0.4)) * 0.08;
+  });
+  return (
+    <mesh ref={mesh} position={position}>
+      <sphereGeometry args={[2, 32, 32]} />
+      <meshStandardMaterial color={color} transparent opacity={0.12} />
+    </mesh>
+  );
+}
+function R3FScene() {
+  return (
+    <>
+      <ambientLight intensity={0.4} />
+      <AmbientOrb
+        position={[-3.5, 1, -3]}
+        color="#6366f1"
+        speed={0.35}
+        offset={ORB_OFFSETS[0]}
+      />
+      <AmbientOrb
+        position={[3.5, -1, -4]}
+        color="#06b6d4"
+        speed={0.28}
+        offset={ORB_OFFSETS[1]}
+      />
+      <AmbientOrb
+        position={[0.5, 2.5, -5]}
+        color="#8b5cf6"
+        speed={0.45}
+        offset={ORB_OFFSETS[2]}
+      />
+    </>
+  );
+}
+
+/* ─── Backdrop: R3F orbs + noise grain, shared by every screen ──────────── */
+export function Backdrop() {
+  return (
+    <>
+      {/* R3F background */}
+      <div className="fixed inset-0 pointer-events-none z-0">
+        <Canvas camera={{ position: [0, 0, 5], fov: 55 }}>
+          <Suspense fallback={null}>
+            <R3FScene />
+          </Suspense>
+        </Canvas>
+      </div>
+
+      {/* Noise grain */}
+      <div
+        className="fixed inset-0 pointer-events-none z-0 opacity-20"
+        style={{
+          backgroundImage: `url("data:image/svg+xml,%3Csvg viewBox='0 0 200 200' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='n'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.85' numOctaves='4' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23n)'/%3E%3C/svg%3E")`,
+          backgroundSize: "120px 120px",
+          mixBlendMode: "overlay",
+        }}
+      />
+    </>
+  );
+}
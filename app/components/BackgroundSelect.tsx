@@ -0,0 +1,70 @@
+import React from "react";
+import {
+  BACKGROUND_IMAGES,
+  type BackgroundEffect,
+  sameEffect,
+} from "../backgroundEffects";
+
+/* ─── Background select ──────────────────────────────────────────────────── */
+const CHOICES: { label: string; effect: BackgroundEffect; url?: string }[] = [
+  { label: "Off", effect: { type: "none" } },
+  { label: "Blur", effect: { type: "blur" } },
+  ...BACKGROUND_IMAGES.map(({ label, url }) => ({
+    label,
+    effect: { type: "image", url } as const,
+    url,
+  })),
+];
+
+export function BackgroundSelect({
+  value,
+  onChange,
+  busy = false,
+  degraded = false,
+}: {
+  value: BackgroundEffect;
+  onChange: (effect: BackgroundEffect) => void;
+  // the model is still loading
+  busy?: boolean;
+  // stepped down to keep up with the CPU
+  degraded?: boolean;
+}) {
+  return (
+    <div className="flex flex-col gap-1.5 text-xs">
+      <span style={{ color: "rgba(255,255,255,0.4)", letterSpacing: "0.06em" }}>
+        Background{busy ? " · loading…" : ""}
+      </span>
+      <div className="flex flex-wrap gap-1.5">
+        {CHOICES.map(({ label, effect, url }) => {
+          const selected = sameEffect(effect, value);
+          return (
+            <button
+              key={label}
+              type="button"
+              aria-pressed={selected}
+              title={label}
+              disabled={busy}
+              onClick={() => onChange(effect)}
+              className="h-8 min-w-12 px-2 rounded-lg text-xs disabled:opacity-50"
+              style={{
+                background: url
+                  ? `center / cover url(${url})`
+                  : "rgba(255,255,255,0.04)",
+                border: `1px solid ${selected ? "rgba(99,102,241,0.8)" : "rgba(255,255,255,0.09)"}`,
+                color: "rgba(255,255,255,0.82)",
+                fontFamily: "inherit",
+              }}
+            >
+              {url ? <span className="sr-only">{label}</span> : label}
+            </button>
+          );
+        })}
+      </div>
+      {degraded && (
+        <span style={{ color: "rgba(255,255,255,0.35)" }}>
+          Simplified to keep up with your computer.
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+/* ─── Nexus logo + wordmark ──────────────────────────────────────────────── */
+export function BrandMark() {
+  return (
+    <div className="flex items-center gap-3">
+      <svg width="30" height="30" viewBox="0 0 30 30" fill="none">
+        <circle cx="15" cy="15" r="13" stroke="url(#lg)" strokeWidth="1.4" />
+        <circle cx="10" cy="15" r="3" fill="#6366f1" />
+        <circle cx="20" cy="15" r="3" fill="#06b6d4" />
+        <path
+          d="M13 15 Q15 12 17 15"
+          stroke="rgba(255,255,255,0.35)"
+          strokeWidth="1.1"
+          fill="none"
+        />
+        <defs>
+          <linearGradient
+            id="lg"
+            x1="0"
+            y1="0"
+            x2="30"
+            y2="30"
+            gradientUnits="userSpaceOnUse"
+          >
+            <stop stopColor="#6366f1" />
+            <stop offset="1" stopColor="#06b6d4" />
+          </linearGradient>
+        </defs>
+      </svg>
+      <span
+        className="text-xs font-bold tracking-[0.18em] uppercase"
+        style={{ color: "rgba(255,255,255,0.55)" }}
+      >
+        Nexus
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import type { ChatMessage } from "../signaling";
+
+function formatTime(sentAt: number): string {
+  return new Date(sentAt).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/* ─── Chat panel ─────────────────────────────────────────────────────────────
+   History since joining, newest at the bottom. Sending is async so the input
+   stays filled (and the error shows) if the message couldn't go out.
+─────────────────────────────────────────────────────────────────────────── */
+export function ChatPanel({
+  messages,
+  localId,
+  nameOf,
+  onSend,
+  onClose,
+}: {
+  messages: ChatMessage[];
+  localId: string;
+  nameOf: (participantId: string) => string;
+  onSend: (text: string) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = listRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages.length]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || sending) return;
+    setSending(true);
+    try {
+      await onSend(text);
+      setDraft("");
+      setError(null);
+    } catch (err) {
+      console.error("Error sending chat message:", err);
+      setError("Message not sent. Try again.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <motion.aside
+      initial={{ opacity: 0, x: 24 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 24 }}
+      transition={{ duration: 0.35, ease: [0.22, 1, 0.36, 1] }}
+      className="fixed right-6 bottom-6 z-40 w-80 flex flex-col rounded-2xl overflow-hidden"
+      style={{
+        height: "min(520px, 70vh)",
+        background: "rgba(10,10,18,0.92)",
+        backdropFilter: "blur(14px)",
+        border: "1px solid rgba(255,255,255,0.09)",
+        boxShadow: "0 24px 64px rgba(0,0,0,0.55)",
+      }}
+    >
+      <div
+        className="flex items-center justify-between px-4 py-3"
+        style={{ borderBottom: "1px solid rgba(255,255,255,0.07)" }}
+      >
+        <span
+          className="text-xs font-semibold"
+          style={{ color: "rgba(255,255,255,0.7)", letterSpacing: "0.06em" }}
+        >
+          Chat
+        </span>
+        <button
+          onClick={onClose}
+          aria-label="Close chat"
+          className="text-xs"
+          style={{ color: "rgba(255,255,255,0.4)", fontFamily: "inherit" }}
+        >
+          Close
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-4 py-3">
+        {messages.length === 0 ? (
+          <p
+            className="mt-6 text-xs text-center"
+            style={{ color: "rgba(255,255,255,0.25)" }}
+          >
+            No messages yet.
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-3">
+            {messages.map((message, i) => {
+              const isLocal = message.participantId === localId;
+              return (
+                <li key={i} className="flex flex-col gap-0.5">
+                  <div className="flex items-baseline gap-2 text-xs">
+                    <span
+                      className="font-medium"
+                      style={{ color: isLocal ? "#a5b4fc" : "#67e8f9" }}
+                    >
+                      {isLocal ? "You" : nameOf(message.participantId)}
+                    </span>
+                    <span style={{ color: "rgba(255,255,255,0.25)" }}>
+                      {formatTime(message.sentAt)}
+                    </span>
+                  </div>
+                  <p
+                    className="text-sm break-words whitespace-pre-wrap"
+                    style={{ color: "rgba(255,255,255,0.82)" }}
+                  >
+                    {message.text}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-col gap-1.5 p-3"
+        style={{ borderTop: "1px solid rgba(255,255,255,0.07)" }}
+      >
+        {error && (
+          <span className="text-xs" style={{ color: "#fca5a5" }}>
+            {error}
+          </span>
+        )}
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Send a message"
+          maxLength={2000}
+          className="px-3 py-2 rounded-xl text-sm outline-none"
+          style={{
+            background: "rgba(255,255,255,0.04)",
+            border: "1px solid rgba(255,255,255,0.09)",
+            color: "rgba(255,255,255,0.82)",
+            caretColor: "#6366f1",
+            fontFamily: "inherit",
+          }}
+        />
+      </form>
+    </motion.aside>
+  );
+}
+
+/* ─── Unread badge for the chat toggle ──────────────────────────────────── */
+export function UnreadBadge({ count }: { count: number }) {
+  if (count === 0) return null;
+  return (
+    <span
+      className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 flex items-center justify-center rounded-full text-[10px] font-semibold pointer-events-none"
+      style={{ background: "#6366f1", color: "#fff" }}
+    >
+      {count > 99 ? "99+" : count}
+    </span>
+  );
+}
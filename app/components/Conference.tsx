@@ -0,0 +1,1898 @@
+"use client";
+
+import React, { useRef, useState, useEffect, useEffectEvent } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import type { MediaKind } from "mediasoup-client/types";
+import {
+  type Quality,
+  type StatsSnapshot,
+  worstQuality,
+} from "../connectionStats";
+import { refreshRoomToken, requestRoomToken } from "../authClient";
+import {
+  AudioProcessor,
+  type AudioProcessingSettings,
+  loadAudioProcessing,
+  saveAudioProcessing,
+} from "../audioProcessing";
+import {
+  type BackgroundEffect,
+  BackgroundProcessor,
+  NO_EFFECT,
+  QUALITY_LEVELS,
+  saveBackgroundEffect,
+} from "../backgroundEffects";
+import type { ClientConfig } from "../config";
+import { loadDevicePreferences, saveDevicePreferences } from "../mediaDevices";
+import type { MediasoupClient } from "../mediasoupClient";
+import { MeetingRecorder, type RecorderState } from "../meetingRecorder";
+import type { CallEnd, RemoteParticipant } from "../roomStore";
+import type {
+  ChatMessage,
+  ConsumerLayers,
+  ParticipantIdentity,
+  RecordingState,
+} from "../signaling";
+import { arrangeTiles, pageCount, pageOf, videoReceivers } from "../tilePages";
+import {
+  VoiceActivityDetector,
+  type VoiceActivityState,
+} from "../voiceActivity";
+import { Backdrop } from "./Backdrop";
+import { BrandMark } from "./BrandMark";
+import { AvatarPlaceholder } from "./AvatarPlaceholder";
+import { ChatPanel, UnreadBadge } from "./ChatPanel";
+import { DevicePicker, type DeviceKind } from "./DevicePicker";
+import {
+  CameraIcon,
+  ChatIcon,
+  HandIcon,
+  MicIcon,
+  PauseIcon,
+  PeopleIcon,
+  RecordIcon,
+  ScreenIcon,
+  SpotlightIcon,
+  StatsIcon,
+} from "./Icons";
+import { Lobby, type LobbyJoinOptions } from "./Lobby";
+import {
+  useLocalMedia,
+  useParticipants,
+  useRemoteTrack,
+  useRoom,
+} from "./MediasoupProvider";
+import { MediaToggle } from "./MediaToggle";
+import { ParticipantsPanel } from "./ParticipantsPanel";
+import {
+  FloatingReactions,
+  REACTION_MS,
+  ReactionPicker,
+  type TileReaction,
+} from "./Reactions";
+import { SignalBars, StatsPanel } from "./StatsPanel";
+
+/* ─── Types ─────────────────────────────────────────────────────────────── */
+type TileSize = "strip" | "grid" | "stage";
+
+const NO_VOICE_ACTIVITY: VoiceActivityState = {
+  speaking: new Set(),
+  recentSpeakers: [],
+  activeSpeaker: null,
+};
+
+// The raw id only shows up when talking to a server without tokens.
+const displayNameOf = (participant: RemoteParticipant) =>
+  participant.identity?.displayName ?? participant.id;
+
+/* ─── Preferred simulcast/SVC layers by how large a video is drawn ───────── */
+const LAYERS = {
+  low: { spatialLayer: 0, temporalLayer: 1 },
+  medium: { spatialLayer: 1, temporalLayer: 2 },
+  high: { spatialLayer: 2, temporalLayer: 2 },
+} satisfies Record<string, ConsumerLayers>;
+
+// What the lobby says after a host ended our call.
+function describeCallEnd({ cause, reason }: CallEnd): string {
+  if (cause === "denied") {
+    return `The host didn't let you in${reason ? `: ${reason}` : "."}`;
+  }
+  return reason
+    ? `You were removed from the meeting: ${reason}`
+    : "You were removed from the meeting.";
+}
+
+/* ─── Waveform: pure CSS keyframe animation, no Framer Motion on SVG attrs ── */
+function Waveform() {
+  return (
+    <svg width="26" height="14" viewBox="0 0 26 14">
+      <style>{`
+        @keyframes bar { 0%,100%{transform:scaleY(1)} 50%{transform:scaleY(1.6)} }
+      `}</style>
+      {[3, 7, 10, 7, 3, 8, 5, 4, 9, 4].map((h, i) => (
+        <rect
+          key={i}
+          x={i * 2.8}
+          y={(14 - h) / 2}
+          width={1.8}
+          height={h}
+          rx={0.9}
+          fill="#818cf8"
+          style={{
+            transformOrigin: `${i * 2.8 + 0.9}px 7px`,
+            animation: `bar ${0.6 + i * 0.06}s ease-in-out infinite`,
+            animationDelay: `${i * 0.05}s`,
+          }}
+        />
+      ))}
+    </svg>
+  );
+}
+
+/* ─── Live pulse dot ─────────────────────────────────────────────────────── */
+function LiveDot() {
+  return (
+    <span className="relative flex h-2 w-2">
+      <motion.span
+        className="absolute inline-flex h-full w-full rounded-full bg-emerald-400"
+        animate={{ scale: [1, 2.4], opacity: [0.6, 0] }}
+        transition={{ duration: 1.3, repeat: Infinity, ease: "easeOut" }}
+      />
+      <span className="relative inline-flex h-2 w-2 rounded-full bg-emerald-400" />
+    </span>
+  );
+}
+
+/* ─── Reconnect banner ───────────────────────────────────────────────────── */
+function ConnectionBanner({
+  status,
+  attempt,
+}: {
+  status: "reconnecting" | "failed";
+  attempt: number;
+}) {
+  const failed = status === "failed";
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -12 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -12 }}
+      transition={{ duration: 0.35, ease: [0.22, 1, 0.36, 1] }}
+      className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-medium"
+      style={{
+        background: failed ? "rgba(239,68,68,0.1)" : "rgba(245,158,11,0.1)",
+        border: `1px solid ${failed ? "rgba(239,68,68,0.3)" : "rgba(245,158,11,0.3)"}`,
+        color: failed ? "#fca5a5" : "#fcd34d",
+        letterSpacing: "0.04em",
+      }}
+    >
+      {failed ? (
+        "Connection lost. Leave and join again to continue."
+      ) : (
+        <>
+          <motion.span
+            className="inline-block h-2 w-2 rounded-full bg-amber-400"
+            animate={{ opacity: [1, 0.3, 1] }}
+            transition={{ duration: 1.1, repeat: Infinity }}
+          />
+          Reconnecting{attempt > 1 ? ` (attempt ${attempt})` : ""}…
+        </>
+      )}
+    </motion.div>
+  );
+}
+
+/* ─── Recording: our own indicator, and the notice when others record ───── */
+function formatElapsed(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const minutes = Math.floor(total / 60);
+  const seconds = String(total % 60).padStart(2, "0");
+  return `${minutes}:${seconds}`;
+}
+
+function RecordingIndicator({
+  paused,
+  elapsedMs,
+}: {
+  paused: boolean;
+  elapsedMs: number;
+}) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.8 }}
+      className="flex items-center gap-2 px-3.5 py-1.5 rounded-full text-xs font-medium"
+      style={{
+        background: "rgba(239,68,68,0.1)",
+        border: "1px solid rgba(239,68,68,0.3)",
+        color: "#fca5a5",
+        letterSpacing: "0.04em",
+      }}
+    >
+      <motion.span
+        className="inline-block h-2 w-2 rounded-full bg-red-500"
+        animate={paused ? { opacity: 0.4 } : { opacity: [1, 0.3, 1] }}
+        transition={paused ? {} : { duration: 1.2, repeat: Infinity }}
+      />
+      {paused ? "Paused" : "REC"} · {formatElapsed(elapsedMs)}
+    </motion.div>
+  );
+}
+
+// `recorders` are display names, not participant ids.
+function RecordingNotice({ recorders }: { recorders: string[] }) {
+  const who =
+    recorders.length === 1 ? recorders[0] : `${recorders.length} participants`;
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -12 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -12 }}
+      transition={{ duration: 0.35, ease: [0.22, 1, 0.36, 1] }}
+      role="status"
+      className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-medium"
+      style={{
+        background: "rgba(239,68,68,0.1)",
+        border: "1px solid rgba(239,68,68,0.3)",
+        color: "#fca5a5",
+        letterSpacing: "0.04em",
+      }}
+    >
+      <span className="inline-block h-2 w-2 rounded-full bg-red-500" />
+      {who} {recorders.length === 1 ? "is" : "are"} recording this meeting.
+    </motion.div>
+  );
+}
+
+// What a host just did to our mic or camera.
+function ModerationNotice({ message }: { message: string }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -12 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -12 }}
+      transition={{ duration: 0.35, ease: [0.22, 1, 0.36, 1] }}
+      role="status"
+      className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-medium"
+      style={{
+        background: "rgba(251,191,36,0.1)",
+        border: "1px solid rgba(251,191,36,0.3)",
+        color: "#fcd34d",
+        letterSpacing: "0.04em",
+      }}
+    >
+      {message}
+    </motion.div>
+  );
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/* ─── Invite link chip ─────────────────────────────────────────────────────── */
+function InviteChip({ roomId }: { roomId: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const link = `${window.location.origin}/room/${encodeURIComponent(roomId)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1800);
+    } catch (error) {
+      console.error("Failed to copy invite link:", error);
+    }
+  };
+
+  return (
+    <div
+      className="flex items-center gap-2 pl-3 pr-1 py-1 rounded-full text-xs"
+      style={{
+        background: "rgba(255,255,255,0.04)",
+        border: "1px solid rgba(255,255,255,0.09)",
+        color: "rgba(255,255,255,0.55)",
+        letterSpacing: "0.04em",
+      }}
+    >
+      <span>
+        Room <span style={{ color: "#a5b4fc" }}>{roomId}</span>
+      </span>
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.96 }}
+        onClick={handleCopy}
+        className="px-2.5 py-1 rounded-full font-medium"
+        style={{
+          background: copied ? "rgba(16,185,129,0.15)" : "rgba(99,102,241,0.2)",
+          color: copied ? "#6ee7b7" : "#c7d2fe",
+          fontFamily: "inherit",
+        }}
+      >
+        {copied ? "Copied" : "Copy invite link"}
+      </motion.button>
+    </div>
+  );
+}
+
+/* ─── Tile shell ─────────────────────────────────────────────────────────── */
+function TileShell({
+  isLocal,
+  label,
+  index,
+  audioMuted,
+  speaking,
+  quality,
+  handPosition,
+  reactions = [],
+  children,
+}: {
+  isLocal: boolean;
+  label: string;
+  index: number;
+  audioMuted?: boolean;
+  speaking?: boolean;
+  quality?: Quality;
+  // 1-based place in the raised-hands queue; undefined with the hand down
+  handPosition?: number;
+  reactions?: TileReaction[];
+  children: React.ReactNode;
+}) {
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, scale: 0.88, y: 24 }}
+      animate={{ opacity: 1, scale: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.88, y: -16 }}
+      transition={{
+        duration: 0.5,
+        delay: index * 0.08,
+        ease: [0.22, 1, 0.36, 1],
+      }}
+      className="relative group rounded-2xl overflow-hidden"
+      style={{
+        background:
+          "linear-gradient(160deg,rgba(255,255,255,0.05),rgba(255,255,255,0.01))",
+        border: `1px solid ${speaking ? "rgba(16,185,129,0.75)" : isLocal ? "rgba(99,102,241,0.35)" : "rgba(6,182,212,0.25)"}`,
+        boxShadow: speaking
+          ? "0 0 0 2px rgba(16,185,129,0.45), 0 24px 64px rgba(0,0,0,0.55)"
+          : "0 24px 64px rgba(0,0,0,0.55)",
+        transition: "border-color 0.2s, box-shadow 0.2s",
+      }}
+    >
+      <div
+        className="absolute top-0 inset-x-0 h-px z-10"
+        style={{
+          background: isLocal
+            ? "linear-gradient(90deg,transparent,rgba(99,102,241,0.9),transparent)"
+            : "linear-gradient(90deg,transparent,rgba(6,182,212,0.7),transparent)",
+        }}
+      />
+      {children}
+      <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-transparent to-transparent pointer-events-none z-10" />
+      <FloatingReactions reactions={reactions} />
+      <AnimatePresence>
+        {handPosition !== undefined && (
+          <motion.span
+            initial={{ opacity: 0, y: -8, rotate: -20 }}
+            animate={{ opacity: 1, y: 0, rotate: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="absolute top-3 left-3 z-20 flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-semibold"
+            title={`Hand raised (#${handPosition})`}
+            style={{
+              background: "rgba(251,191,36,0.2)",
+              border: "1px solid rgba(251,191,36,0.4)",
+              color: "#fcd34d",
+            }}
+          >
+            <HandIcon size={13} />
+            {handPosition}
+          </motion.span>
+        )}
+      </AnimatePresence>
+      <div className="absolute bottom-3 left-3 z-20 flex items-center gap-2">
+        <span
+          className="px-2.5 py-1 rounded-lg text-xs font-medium"
+          style={{
+            background: "rgba(0,0,0,0.65)",
+            backdropFilter: "blur(10px)",
+            border: "1px solid rgba(255,255,255,0.07)",
+            color: isLocal ? "#a5b4fc" : "#67e8f9",
+            letterSpacing: "0.04em",
+          }}
+        >
+          {isLocal ? "You" : label}
+        </span>
+        {audioMuted ? (
+          <span
+            className="flex items-center justify-center h-6 w-6 rounded-lg"
+            title="Muted"
+            style={{
+              background: "rgba(239,68,68,0.25)",
+              border: "1px solid rgba(239,68,68,0.35)",
+              color: "#fca5a5",
+            }}
+          >
+            <MicIcon off size={13} />
+          </span>
+        ) : (
+          speaking && <Waveform />
+        )}
+      </div>
+      {quality && (
+        <div className="absolute top-3 right-3 z-20">
+          <SignalBars quality={quality} />
+        </div>
+      )}
+      <div
+        className="absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-500 pointer-events-none z-10"
+        style={{
+          background:
+            "radial-gradient(ellipse at 50% 0%,rgba(99,102,241,0.07),transparent 70%)",
+        }}
+      />
+    </motion.div>
+  );
+}
+
+// Grid tiles are roomy, strip thumbnails small, the spotlight large.
+function tileVideoStyle(size: TileSize): React.CSSProperties {
+  const height = {
+    strip: { minHeight: "124px", maxHeight: "124px" },
+    grid: { minHeight: "240px", maxHeight: "300px" },
+    stage: { minHeight: "420px", maxHeight: "62vh" },
+  }[size];
+  return { ...height, background: "#0a0a12", display: "block" };
+}
+
+/* ─── LocalVideoTile ─────────────────────────────────────────────────────────
+   Receives the MediaStream as a prop and sets srcObject via useEffect.
+   This avoids the timing bug where srcObject was set before the <video>
+   element existed in the DOM (it was hidden behind isConnected gate).
+─────────────────────────────────────────────────────────────────────────── */
+function LocalVideoTile({
+  stream,
+  label,
+  avatarUrl,
+  index,
+  audioMuted,
+  videoOff,
+  speaking,
+  size,
+  quality,
+  handPosition,
+  reactions,
+}: {
+  stream: MediaStream | null;
+  label: string;
+  avatarUrl?: string;
+  index: number;
+  audioMuted: boolean;
+  videoOff: boolean;
+  speaking: boolean;
+  size: TileSize;
+  quality?: Quality;
+  handPosition?: number;
+  reactions: TileReaction[];
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el || !stream) return;
+    el.srcObject = stream;
+    el.play().catch(() => {});
+    return () => {
+      el.srcObject = null;
+    };
+  }, [stream]);
+
+  return (
+    <TileShell
+      isLocal={true}
+      label={label}
+      index={index}
+      audioMuted={audioMuted}
+      speaking={speaking}
+      quality={quality}
+      handPosition={handPosition}
+      reactions={reactions}
+    >
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        className="w-full object-cover"
+        style={tileVideoStyle(size)}
+      />
+      {videoOff && (
+        <AvatarPlaceholder label={label} avatarUrl={avatarUrl} isLocal={true} />
+      )}
+    </TileShell>
+  );
+}
+
+/* ─── RemoteVideoTile ────────────────────────────────────────────────────────
+   Stable MediaStream in a ref. Tracks swapped in-place via separate effects.
+   srcObject is wired once on mount — never reassigned.
+─────────────────────────────────────────────────────────────────────────── */
+function RemoteVideoTile({
+  participant,
+  index,
+  speaking,
+  size,
+  sinkId,
+  quality,
+  handPosition,
+  reactions,
+}: {
+  participant: RemoteParticipant;
+  index: number;
+  speaking: boolean;
+  size: TileSize;
+  sinkId?: string;
+  quality?: Quality;
+  handPosition?: number;
+  reactions: TileReaction[];
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef(new MediaStream());
+  const videoTrack = useRemoteTrack(participant.id, "video");
+  const audioTrack = useRemoteTrack(participant.id, "audio");
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el) return;
+    el.srcObject = streamRef.current;
+    el.play().catch(() => {});
+    return () => {
+      el.srcObject = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const s = streamRef.current;
+    s.getVideoTracks().forEach((t) => s.removeTrack(t));
+    if (videoTrack) {
+      s.addTrack(videoTrack);
+      videoRef.current?.play().catch(() => {});
+    }
+  }, [videoTrack]);
+
+  useEffect(() => {
+    const s = streamRef.current;
+    s.getAudioTracks().forEach((t) => s.removeTrack(t));
+    if (audioTrack) s.addTrack(audioTrack);
+  }, [audioTrack]);
+
+  // Speaker choice from the lobby; setSinkId is Chromium-only.
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el || !sinkId || !("setSinkId" in el)) return;
+    el.setSinkId(sinkId).catch((error) =>
+      console.error("Error selecting speaker:", error),
+    );
+  }, [sinkId]);
+
+  return (
+    <TileShell
+      isLocal={false}
+      label={displayNameOf(participant)}
+      index={index}
+      audioMuted={participant.audioMuted}
+      speaking={speaking}
+      quality={quality}
+      handPosition={handPosition}
+      reactions={reactions}
+    >
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        className="w-full object-cover"
+        style={tileVideoStyle(size)}
+      />
+      {(participant.videoOff || participant.videoPaused || !videoTrack) && (
+        <AvatarPlaceholder
+          label={displayNameOf(participant)}
+          avatarUrl={participant.identity?.avatarUrl}
+          isLocal={false}
+        />
+      )}
+    </TileShell>
+  );
+}
+
+/* ─── RemoteAudio ────────────────────────────────────────────────────────────
+   Plays someone whose tile is on another page of the grid; on screen, their
+   tile's <video> plays the sound instead.
+─────────────────────────────────────────────────────────────────────────── */
+function RemoteAudio({
+  participantId,
+  sinkId,
+}: {
+  participantId: string;
+  sinkId?: string;
+}) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const track = useRemoteTrack(participantId, "audio");
+
+  useEffect(() => {
+    const el = audioRef.current;
+    if (!el || !track) return;
+    el.srcObject = new MediaStream([track]);
+    el.play().catch(() => {});
+    return () => {
+      el.srcObject = null;
+    };
+  }, [track]);
+
+  useEffect(() => {
+    const el = audioRef.current;
+    if (!el || !sinkId || !("setSinkId" in el)) return;
+    el.setSinkId(sinkId).catch((error) =>
+      console.error("Error selecting speaker:", error),
+    );
+  }, [sinkId]);
+
+  return <audio ref={audioRef} autoPlay />;
+}
+
+/* ─── GridPager ──────────────────────────────────────────────────────────── */
+function GridPager({
+  page,
+  pages,
+  onChange,
+}: {
+  page: number;
+  pages: number;
+  onChange: (page: number) => void;
+}) {
+  const button = (label: string, to: number, children: React.ReactNode) => (
+    <button
+      onClick={() => onChange(to)}
+      disabled={to < 0 || to >= pages}
+      aria-label={label}
+      className="h-8 w-8 rounded-lg text-sm disabled:opacity-30"
+      style={{
+        background: "rgba(255,255,255,0.06)",
+        border: "1px solid rgba(255,255,255,0.12)",
+        color: "rgba(255,255,255,0.82)",
+        fontFamily: "inherit",
+      }}
+    >
+      {children}
+    </button>
+  );
+
+  return (
+    <div className="mt-4 flex items-center justify-center gap-3 text-xs">
+      {button("Previous page", page - 1, "‹")}
+      <span
+        className="tabular-nums"
+        style={{ color: "rgba(255,255,255,0.5)", letterSpacing: "0.06em" }}
+      >
+        Page {page + 1} of {pages}
+      </span>
+      {button("Next page", page + 1, "›")}
+    </div>
+  );
+}
+
+/* ─── ScreenShareStage: the large presenter view ────────────────────────── */
+function ScreenShareStage({
+  track,
+  label,
+  isLocal,
+}: {
+  track: MediaStreamTrack;
+  label: string;
+  isLocal: boolean;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el) return;
+    el.srcObject = new MediaStream([track]);
+    el.play().catch(() => {});
+    return () => {
+      el.srcObject = null;
+    };
+  }, [track]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.96 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.96 }}
+      transition={{ duration: 0.5, ease: [0.22, 1, 0.36, 1] }}
+      className="relative rounded-2xl overflow-hidden"
+      style={{
+        border: "1px solid rgba(99,102,241,0.3)",
+        boxShadow: "0 24px 64px rgba(0,0,0,0.55)",
+      }}
+    >
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        className="w-full object-contain"
+        style={{ maxHeight: "62vh", background: "#05050a", display: "block" }}
+      />
+      <div className="absolute top-3 left-3 z-20 flex items-center gap-2">
+        <span
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium"
+          style={{
+            background: "rgba(0,0,0,0.65)",
+            backdropFilter: "blur(10px)",
+            border: "1px solid rgba(255,255,255,0.07)",
+            color: "#c7d2fe",
+            letterSpacing: "0.04em",
+          }}
+        >
+          <ScreenIcon size={13} />
+          {isLocal ? "You are presenting" : `${label} is presenting`}
+        </span>
+      </div>
+    </motion.div>
+  );
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════
+   App
+   KEY FIX: the published MediaStream lives in the room store
+   (`localStream`). The video grid (including <LocalVideoTile>) only
+   renders once the store reports us in the call, and it adopts the stream
+   in that same update — so by the time LocalVideoTile's useEffect runs,
+   srcObject gets set correctly on the live DOM element.
+═══════════════════════════════════════════════════════════════════════════ */
+const Conference: React.FC<{ roomId: string; config: ClientConfig }> = ({
+  roomId,
+  config,
+}) => {
+  const [displayName, setDisplayName] = useState("");
+  // who the token server says we are; set on join
+  const [identity, setIdentity] = useState<ParticipantIdentity | null>(null);
+  const participantId = identity?.participantId ?? "";
+  const room = useRoom();
+  const { client } = room;
+  const isConnected = room.inCall;
+  const {
+    stream: localStream,
+    micMuted,
+    cameraOff,
+    screenTrack,
+    toggleMedia,
+    replaceTrack,
+    shareScreen,
+    stopScreenShare,
+  } = useLocalMedia();
+  const remoteParticipants = useParticipants();
+  const [layout, setLayout] = useState<"grid" | "spotlight">("grid");
+  const [speakerId, setSpeakerId] = useState<string | undefined>();
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatOpen, setChatOpen] = useState(false);
+  // messages already seen when the panel was last closed
+  const [chatReadCount, setChatReadCount] = useState(0);
+  const [stats, setStats] = useState<StatsSnapshot | null>(null);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [recorderState, setRecorderState] = useState<RecorderState>("inactive");
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+  const [voiceActivity, setVoiceActivity] =
+    useState<VoiceActivityState>(NO_VOICE_ACTIVITY);
+  // the server's word on our role, which wins over the token's
+  const role = room.role ?? identity?.role;
+  const [participantsOpen, setParticipantsOpen] = useState(false);
+  // 0-based page of the video grid
+  const [page, setPage] = useState(0);
+  const [moderationNotice, setModerationNotice] = useState<string | null>(null);
+  // floating over tiles for REACTION_MS, ours included
+  const [reactions, setReactions] = useState<
+    (TileReaction & { participantId: string })[]
+  >([]);
+  const nextReactionIdRef = useRef(0);
+  // we asked to join and a host has yet to let us in
+  const waiting = room.connectionState === "waiting";
+  // drawing our camera while a virtual background is on
+  const [backgroundProcessor, setBackgroundProcessor] =
+    useState<BackgroundProcessor | null>(null);
+  const [backgroundEffect, setBackgroundEffect] =
+    useState<BackgroundEffect>(NO_EFFECT);
+  const [backgroundBusy, setBackgroundBusy] = useState(false);
+  // stepped down because the CPU couldn't keep up
+  const [backgroundDegraded, setBackgroundDegraded] = useState(false);
+  // cleaning up our microphone before it's published
+  const [audioProcessor, setAudioProcessor] = useState<AudioProcessor | null>(
+    null,
+  );
+  const [audioSettings, setAudioSettings] = useState(loadAudioProcessing);
+  const voiceActivityRef = useRef<VoiceActivityDetector | null>(null);
+  const recorderRef = useRef<MeetingRecorder | null>(null);
+  const recordingTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const handleJoin = async ({
+    stream,
+    micOff,
+    cameraOff: joinCameraOff,
+    devices,
+    background,
+  }: LobbyJoinOptions): Promise<boolean> => {
+    if (!displayName.trim()) return false;
+    setJoinError(null);
+    let processor: AudioProcessor | null = null;
+    try {
+      const grant = await requestRoomToken(roomId, displayName);
+      setIdentity(grant.identity);
+
+      // Created inside the click handler so the AudioContext may start.
+      voiceActivityRef.current = new VoiceActivityDetector(setVoiceActivity);
+
+      // Without the processing chain we publish the raw microphone.
+      const mic = stream?.getAudioTracks()[0];
+      if (mic && AudioProcessor.isSupported()) {
+        processor = await AudioProcessor.create(
+          mic.clone(),
+          audioSettings,
+          config.noiseSuppressionUrl,
+          config.media.audio,
+        ).catch((error) => {
+          console.error("Error starting audio processing:", error);
+          return null;
+        });
+      }
+
+      // The lobby hands over its preview stream, so the camera stays on and
+      // the devices picked there are the ones we publish.
+      const joined = await room.join({
+        signalingUrl: config.signalingUrl,
+        roomId,
+        participantId: grant.identity.participantId,
+        stream:
+          processor && stream
+            ? new MediaStream([...stream.getVideoTracks(), processor.track])
+            : stream,
+        micOff,
+        cameraOff: joinCameraOff,
+        iceServers: config.iceServers,
+        iceTransportPolicy: config.iceTransportPolicy,
+        media: config.media,
+        token: grant.token,
+        refreshToken: refreshRoomToken,
+      });
+      // Cancelled from the waiting screen, which already cleaned up.
+      if (!joined) {
+        processor?.stop();
+        return false;
+      }
+      setSpeakerId(devices.audioOutputId);
+      if (processor) {
+        // the processor has its own clone of the microphone
+        mic?.stop();
+        setAudioProcessor(processor);
+      }
+      if (background) adoptBackground(background);
+      return true;
+    } catch (error) {
+      console.error("Error joining:", error);
+      processor?.stop();
+      voiceActivityRef.current?.close();
+      voiceActivityRef.current = null;
+      // A host turning us away is reported through room.ended instead.
+      setJoinError(
+        error instanceof Error && error.message === "Room is locked"
+          ? "This meeting is locked. Ask the host to unlock it."
+          : "Couldn't connect to the conference. Check your connection and try again.",
+      );
+      return false;
+    }
+  };
+
+  const handleCancelWaiting = () => {
+    room.leave();
+    voiceActivityRef.current?.close();
+    voiceActivityRef.current = null;
+  };
+
+  const handleLeave = () => {
+    // Leaving mid-recording still hands over what was captured.
+    if (recorderRef.current) stopRecording();
+    room.leave();
+    backgroundProcessor?.stop();
+    adoptBackground(null);
+    audioProcessor?.stop();
+    setAudioProcessor(null);
+    voiceActivityRef.current?.close();
+    voiceActivityRef.current = null;
+    if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+    setVoiceActivity(NO_VOICE_ACTIVITY);
+    setChatMessages([]);
+    setChatOpen(false);
+    setChatReadCount(0);
+    setStats(null);
+    setStatsOpen(false);
+    setParticipantsOpen(false);
+    setModerationNotice(null);
+    setReactions([]);
+    setPage(0);
+  };
+
+  // Everyone on screen, in the order the grid shows them.
+  const recordingSources = () => [
+    {
+      id: participantId,
+      label: nameOf(participantId),
+      videoTrack: localStream?.getVideoTracks()[0],
+      audioTrack: localStream?.getAudioTracks()[0],
+    },
+    ...(screenTrack
+      ? [{ id: "local-screen", label: "Your screen", videoTrack: screenTrack }]
+      : []),
+    ...[...remoteParticipants.values()].flatMap((p) => [
+      {
+        id: p.id,
+        label: displayNameOf(p),
+        videoTrack: p.videoTrack,
+        audioTrack: p.audioTrack,
+      },
+      ...(p.screenTrack
+        ? [
+            {
+              id: `${p.id}-screen`,
+              label: `${displayNameOf(p)}'s screen`,
+              videoTrack: p.screenTrack,
+            },
+          ]
+        : []),
+    ]),
+  ];
+
+  const announceRecording = (state: RecordingState) => {
+    client
+      ?.setRecordingState(state)
+      .catch((error) => console.error("Error announcing recording:", error));
+  };
+
+  const startRecording = () => {
+    if (!MeetingRecorder.isSupported()) {
+      console.error("Recording is not supported in this browser");
+      return;
+    }
+    try {
+      const recorder = new MeetingRecorder();
+      recorder.setSources(recordingSources());
+      recorder.start();
+      recorderRef.current = recorder;
+      recordingTimerRef.current = setInterval(
+        () => setRecordingElapsed(recorder.elapsedMs),
+        500,
+      );
+      setRecordingElapsed(0);
+      setRecorderState("recording");
+      announceRecording("recording");
+    } catch (error) {
+      console.error("Error starting recording:", error);
+    }
+  };
+
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    if (recordingTimerRef.current) clearInterval(recordingTimerRef.current);
+    recordingTimerRef.current = null;
+    setRecorderState("inactive");
+    setRecordingElapsed(0);
+    announceRecording("stopped");
+
+    const blob = await recorder.stop();
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+    downloadBlob(blob, `nexus-${roomId}-${stamp}.webm`);
+  };
+
+  const handleTogglePauseRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    if (recorder.state === "paused") recorder.resume();
+    else recorder.pause();
+    setRecorderState(recorder.state);
+    announceRecording(recorder.state === "paused" ? "paused" : "recording");
+  };
+
+  const handleSendChat = async (text: string) => {
+    if (!client) return;
+    const message = await client.sendChat(text);
+    setChatMessages((prev) => [...prev, message]);
+  };
+
+  // Chat and participants share the right edge; one panel at a time.
+  const handleToggleChat = () => {
+    if (chatOpen) setChatReadCount(chatMessages.length);
+    else setParticipantsOpen(false);
+    setChatOpen(!chatOpen);
+  };
+  const handleToggleParticipants = () => {
+    if (!participantsOpen && chatOpen) handleToggleChat();
+    setParticipantsOpen(!participantsOpen);
+  };
+  const unreadChat = chatOpen ? 0 : chatMessages.length - chatReadCount;
+
+  const nameOf = (id: string): string => {
+    if (id === participantId) return identity?.displayName ?? id;
+    const participant = remoteParticipants.get(id);
+    return participant ? displayNameOf(participant) : id;
+  };
+
+  const handPositionOf = (id: string): number | undefined => {
+    const i = room.raisedHands.findIndex((hand) => hand.participantId === id);
+    return i === -1 ? undefined : i + 1;
+  };
+  const handRaised = handPositionOf(participantId) !== undefined;
+  const reactionsOf = (id: string) =>
+    reactions.filter((reaction) => reaction.participantId === id);
+
+  const showReaction = (reactor: string, emoji: string) => {
+    const id = nextReactionIdRef.current++;
+    setReactions((prev) => [...prev, { id, participantId: reactor, emoji }]);
+    setTimeout(
+      () => setReactions((prev) => prev.filter((r) => r.id !== id)),
+      REACTION_MS,
+    );
+  };
+
+  // Ours show straight away; the server only relays them to the others.
+  const handleReact = (emoji: string) => {
+    if (!client) return;
+    showReaction(participantId, emoji);
+    client
+      .sendReaction(emoji)
+      .catch((error) => console.error("Error sending reaction:", error));
+  };
+
+  const handleToggleHand = () => {
+    if (!client) return;
+    (handRaised ? client.lowerHand() : client.raiseHand()).catch((error) =>
+      console.error("Error raising hand:", error),
+    );
+  };
+
+  // Worst grade among a participant's streams; hidden until the first poll.
+  const qualityOf = (id: string): Quality | undefined => {
+    const streams = stats?.streams.filter((s) => s.participantId === id);
+    return streams?.length
+      ? worstQuality(streams.map((s) => s.quality))
+      : undefined;
+  };
+
+  const handleSelectDevice = async (kind: DeviceKind, deviceId: string) => {
+    const prefs = loadDevicePreferences();
+    if (kind === "audiooutput") {
+      setSpeakerId(deviceId);
+      saveDevicePreferences({ ...prefs, audioOutputId: deviceId });
+      return;
+    }
+
+    if (!client) return;
+    const media = kind === "videoinput" ? "video" : "audio";
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        [media]: { ...config.media[media], deviceId: { exact: deviceId } },
+      });
+      const [track] = stream.getTracks();
+      // With a processor in between, the published track stays its own.
+      if (media === "video" && backgroundProcessor) {
+        backgroundProcessor.setSource(track);
+      } else if (media === "audio" && audioProcessor) {
+        await audioProcessor.setSource(track);
+      } else {
+        await replaceTrack(media, track);
+      }
+      saveDevicePreferences({
+        ...prefs,
+        ...(media === "video"
+          ? { videoInputId: deviceId }
+          : { audioInputId: deviceId }),
+      });
+    } catch (error) {
+      console.error(`Error switching ${media} device:`, error);
+    }
+  };
+
+  const adoptBackground = (processor: BackgroundProcessor | null) => {
+    if (processor) {
+      processor.onQualityChange = (quality) =>
+        setBackgroundDegraded(quality !== QUALITY_LEVELS[0]);
+    }
+    setBackgroundProcessor(processor);
+    setBackgroundEffect(processor?.effect ?? NO_EFFECT);
+    setBackgroundDegraded(false);
+  };
+
+  const handleAudioSettings = (settings: AudioProcessingSettings) => {
+    saveAudioProcessing(settings);
+    setAudioSettings(settings);
+    audioProcessor
+      ?.setSettings(settings)
+      .catch((error) =>
+        console.error("Error applying audio processing:", error),
+      );
+  };
+
+  // Turning a background on or off swaps the published camera track with
+  // replaceTrack; changing it while on happens inside the processor.
+  const handleSelectBackground = async (effect: BackgroundEffect) => {
+    saveBackgroundEffect(effect);
+    setBackgroundEffect(effect);
+    const camera = localStream?.getVideoTracks()[0];
+    try {
+      if (backgroundProcessor && effect.type === "none") {
+        adoptBackground(null);
+        // replaceTrack stops the processed track, and with it the processor
+        await replaceTrack("video", backgroundProcessor.source.clone());
+      } else if (backgroundProcessor) {
+        await backgroundProcessor.setEffect(effect);
+      } else if (camera && effect.type !== "none") {
+        setBackgroundBusy(true);
+        const processor = await BackgroundProcessor.create(
+          camera.clone(),
+          effect,
+          config.segmentation,
+        );
+        adoptBackground(processor);
+        await replaceTrack("video", processor.track);
+      }
+    } catch (error) {
+      console.error("Error switching background:", error);
+    } finally {
+      setBackgroundBusy(false);
+    }
+  };
+
+  const handleToggleScreenShare = async () => {
+    if (!client) return;
+    if (screenTrack) {
+      stopScreenShare();
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getDisplayMedia({
+        video: true,
+      });
+      await shareScreen(stream.getVideoTracks()[0]);
+    } catch (error) {
+      console.error("Error sharing screen:", error);
+    }
+  };
+
+  const handleToggleMedia = async (kind: MediaKind) => {
+    try {
+      await toggleMedia(kind);
+    } catch (error) {
+      console.error(`Error toggling ${kind}:`, error);
+    }
+  };
+
+  const showModerationNotice = (message: string) => {
+    if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+    setModerationNotice(message);
+    noticeTimerRef.current = setTimeout(() => setModerationNotice(null), 6000);
+  };
+
+  // Host actions; the server rejects them for anyone else.
+  const moderate = (
+    action: string,
+    run: (client: MediasoupClient) => Promise<void>,
+  ) => {
+    if (!client) return;
+    run(client).catch((error) => console.error(`Error ${action}:`, error));
+  };
+  const handleRequestMute = (id: string, kind: MediaKind) =>
+    moderate(`muting ${id}`, (client) => client.requestMute(id, kind));
+  const handleStopMedia = (id: string) =>
+    moderate(`stopping media of ${id}`, (client) =>
+      client.closeParticipantProducers(id),
+    );
+  const handleRemove = (id: string) =>
+    moderate(`removing ${id}`, (client) => client.kick(id));
+  const handleToggleLock = () =>
+    moderate("locking the room", (client) =>
+      client.setRoomLocked(!room.locked),
+    );
+  const handleToggleWaitingRoom = () =>
+    moderate("switching the waiting room", (client) =>
+      client.setWaitingRoom(!room.waitingRoom),
+    );
+  const handleAdmit = (ids: string[] = []) =>
+    moderate("admitting", (client) => client.admit(...ids));
+  const handleDeny = (ids: string[] = []) =>
+    moderate("denying entry", (client) => client.deny(ids));
+  const handleLowerHand = (id?: string) =>
+    moderate("lowering hands", (client) =>
+      id ? client.lowerHand(id) : client.clearRaisedHands(),
+    );
+
+  const onForceMuted = useEffectEvent((kind: MediaKind, closed: boolean) => {
+    const what = kind === "audio" ? "microphone" : "camera";
+    showModerationNotice(
+      closed
+        ? `A host stopped your ${what}. Turn it back on when you're ready.`
+        : `A host muted your ${what}.`,
+    );
+  });
+  // The store has already hung up; tidy up what only this page holds.
+  const onKicked = useEffectEvent(() => handleLeave());
+  const onReaction = useEffectEvent((reactor: string, emoji: string) =>
+    showReaction(reactor, emoji),
+  );
+
+  // Navigating away mid-call skips the Leave button, and the provider's
+  // store.leave() doesn't know about the processors, the detector or the
+  // recorder; release them the same way.
+  const onUnmount = useEffectEvent(() => handleLeave());
+  useEffect(() => () => onUnmount(), []);
+
+  // Room events that only matter to this page.
+  useEffect(() => {
+    if (!client) return;
+    const unsubscribes = [
+      client.on("chatMessage", (message) =>
+        setChatMessages((prev) => [...prev, message]),
+      ),
+      client.on("stats", setStats),
+      client.on("qualityChanged", ({ stream, previous }) => {
+        console.log(
+          `${stream.direction} ${stream.kind} of ${stream.participantId}: ${previous} → ${stream.quality}`,
+        );
+      }),
+      client.on("forceMuted", ({ kind, closed }) => onForceMuted(kind, closed)),
+      client.on("kicked", () => onKicked()),
+      client.on("reaction", ({ participantId, emoji }) =>
+        onReaction(participantId, emoji),
+      ),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [client]);
+
+  // A device unplugged under a processor is replaced through the processor.
+  useEffect(() => {
+    if (!client || !backgroundProcessor) return;
+    client.setTrackProcessor("video", backgroundProcessor);
+    return () => client.setTrackProcessor("video", null);
+  }, [client, backgroundProcessor]);
+  useEffect(() => {
+    if (!client || !audioProcessor) return;
+    client.setTrackProcessor("audio", audioProcessor);
+    return () => client.setTrackProcessor("audio", null);
+  }, [client, audioProcessor]);
+
+  // New tracks, people and screen shares join an ongoing recording.
+  useEffect(() => {
+    recorderRef.current?.setSources(recordingSources());
+  });
+
+  // Keep the detector watching exactly the audio tracks on air.
+  useEffect(() => {
+    const detector = voiceActivityRef.current;
+    if (!detector) return;
+    detector.setTrack(participantId, localStream?.getAudioTracks()[0]);
+    remoteParticipants.forEach((p) => detector.setTrack(p.id, p.audioTrack));
+    detector.retain([participantId, ...remoteParticipants.keys()]);
+  }, [remoteParticipants, participantId, localStream]);
+
+  // Our own tile is on every page; the rest of it is everyone else.
+  const pageSize = config.maxVisibleTiles - 1;
+  const participants = arrangeTiles(
+    [...remoteParticipants.keys()],
+    voiceActivity.recentSpeakers,
+    pageSize,
+  ).map((id) => remoteParticipants.get(id)!);
+  const pages = pageCount(participants.length, pageSize);
+  // clamped here rather than in state: people leaving never move `page`
+  const currentPage = Math.min(page, pages - 1);
+  const onPage = pageOf(participants, currentPage, pageSize);
+  // A remote presenter takes the stage over our own share.
+  const remotePresenter = participants.find((p) => p.screenTrack);
+  const presentation = remotePresenter?.screenTrack
+    ? {
+        track: remotePresenter.screenTrack,
+        label: displayNameOf(remotePresenter),
+        isLocal: false,
+      }
+    : screenTrack
+      ? { track: screenTrack, label: nameOf(participantId), isLocal: true }
+      : null;
+  const presenting = presentation !== null;
+  // Spotlight follows the latest remote speaker, else the first to join.
+  // A presentation takes the stage instead, so there is none meanwhile.
+  const spotlightId =
+    layout === "spotlight" && !presenting && participants.length > 0
+      ? (voiceActivity.recentSpeakers.find((id) =>
+          remoteParticipants.has(id),
+        ) ?? participants[0].id)
+      : null;
+
+  // Camera tiles shrink as the grid fills up, and become a thumbnail strip
+  // while someone presents; ask the server for layers to match.
+  const tileLayers = presenting
+    ? LAYERS.low
+    : onPage.length <= 2
+      ? LAYERS.high
+      : onPage.length <= 6
+        ? LAYERS.medium
+        : LAYERS.low;
+
+  // Video nobody can see isn't worth receiving; off-page tiles keep audio.
+  const onScreen = videoReceivers(
+    [...onPage.map((p) => p.id), spotlightId ?? ""],
+    participants.map((p) => p.id),
+    recorderState !== "inactive",
+  ).join(" ");
+
+  useEffect(() => {
+    if (!client) return;
+    const visible = new Set(onScreen.split(" "));
+    client.setVideoOnScreen(visible);
+    remoteParticipants.forEach((participant) => {
+      const producerId = participant.videoProducerId;
+      if (!producerId) return;
+      client
+        .setVideoVisible(producerId, visible.has(participant.id))
+        .catch((error) => console.error("Error pausing video:", error));
+      if (!visible.has(participant.id)) return;
+      const layers = participant.id === spotlightId ? LAYERS.high : tileLayers;
+      client
+        .setPreferredLayers(producerId, layers)
+        .catch((error) =>
+          console.error("Error setting preferred layers:", error),
+        );
+    });
+  }, [client, remoteParticipants, onScreen, tileLayers, spotlightId]);
+
+  const connectionIssue =
+    room.connectionState === "reconnecting" || room.connectionState === "failed"
+      ? { status: room.connectionState, attempt: room.reconnectAttempt }
+      : null;
+
+  const renderRemoteTile = (
+    participant: RemoteParticipant,
+    index: number,
+    size: TileSize,
+  ) => (
+    <RemoteVideoTile
+      key={participant.id}
+      participant={participant}
+      index={index}
+      size={size}
+      speaking={voiceActivity.speaking.has(participant.id)}
+      sinkId={speakerId}
+      quality={qualityOf(participant.id)}
+      handPosition={handPositionOf(participant.id)}
+      reactions={reactionsOf(participant.id)}
+    />
+  );
+
+  const renderTiles = (size: TileSize, exclude?: string | null) => (
+    <>
+      {/* LocalVideoTile receives stream as prop, sets srcObject in its own useEffect */}
+      <LocalVideoTile
+        stream={localStream}
+        label={nameOf(participantId)}
+        avatarUrl={identity?.avatarUrl}
+        index={0}
+        audioMuted={micMuted}
+        videoOff={cameraOff}
+        speaking={voiceActivity.speaking.has(participantId)}
+        size={size}
+        quality={qualityOf(participantId)}
+        handPosition={handPositionOf(participantId)}
+        reactions={reactionsOf(participantId)}
+      />
+
+      <AnimatePresence>
+        {onPage
+          .filter((participant) => participant.id !== exclude)
+          .map((participant, i) => renderRemoteTile(participant, i + 1, size))}
+      </AnimatePresence>
+    </>
+  );
+
+  // Everyone without a tile on screen is still heard.
+  const offScreen = participants.filter(
+    (participant) =>
+      participant.id !== spotlightId && !onPage.includes(participant),
+  );
+
+  const stripStyle: React.CSSProperties = {
+    gridAutoFlow: "column",
+    gridAutoColumns: "220px",
+  };
+
+  return (
+    <div
+      className="min-h-screen relative overflow-hidden"
+      style={{
+        background: "#07070e",
+        fontFamily: "'DM Sans','Helvetica Neue',sans-serif",
+      }}
+    >
+      <Backdrop />
+
+      <div className="relative z-10 min-h-screen flex flex-col">
+        {/* Header */}
+        <motion.header
+          initial={{ opacity: 0, y: -18 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.7, ease: [0.22, 1, 0.36, 1] }}
+          className="flex items-center justify-between px-8 pt-6 pb-4"
+        >
+          <div className="flex items-center gap-4">
+            <BrandMark />
+            <InviteChip roomId={roomId} />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <AnimatePresence>
+              {recorderState !== "inactive" && (
+                <RecordingIndicator
+                  paused={recorderState === "paused"}
+                  elapsedMs={recordingElapsed}
+                />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {isConnected && (
+                <motion.div
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.8 }}
+                  className="flex items-center gap-2 px-3.5 py-1.5 rounded-full"
+                  style={{
+                    background: "rgba(16,185,129,0.08)",
+                    border: "1px solid rgba(16,185,129,0.22)",
+                  }}
+                >
+                  <LiveDot />
+                  <span className="text-xs text-emerald-400 font-medium tracking-wide">
+                    Live · {remoteParticipants.size + 1} participant
+                    {remoteParticipants.size !== 0 ? "s" : ""}
+                  </span>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        </motion.header>
+
+        <div className="flex-1 flex flex-col items-center px-6 pb-10 gap-7">
+          <AnimatePresence>
+            {isConnected && connectionIssue && (
+              <ConnectionBanner
+                status={connectionIssue.status}
+                attempt={connectionIssue.attempt}
+              />
+            )}
+          </AnimatePresence>
+
+          <AnimatePresence>
+            {isConnected && moderationNotice && (
+              <ModerationNotice message={moderationNotice} />
+            )}
+          </AnimatePresence>
+
+          <AnimatePresence>
+            {isConnected && room.recorders.size > 0 && (
+              <RecordingNotice recorders={[...room.recorders].map(nameOf)} />
+            )}
+          </AnimatePresence>
+
+          {/* Hero */}
+          <AnimatePresence>
+            {!isConnected && (
+              <motion.div
+                initial={{ opacity: 0, y: 28 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{
+                  duration: 0.75,
+                  delay: 0.15,
+                  ease: [0.22, 1, 0.36, 1],
+                }}
+                className="text-center mt-10 mb-2"
+              >
+                <h1
+                  className="text-5xl font-bold leading-tight mb-3"
+                  style={{
+                    background:
+                      "linear-gradient(135deg,#fff 25%,rgba(99,102,241,0.85) 60%,#06b6d4)",
+                    WebkitBackgroundClip: "text",
+                    WebkitTextFillColor: "transparent",
+                    letterSpacing: "-0.03em",
+                  }}
+                >
+                  Clear. Present.
+                  <br />
+                  Connected.
+                </h1>
+                <p
+                  className="text-sm"
+                  style={{
+                    color: "rgba(255,255,255,0.3)",
+                    letterSpacing: "0.04em",
+                  }}
+                >
+                  Minimal video conferencing. Maximum focus.
+                </p>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Lobby / in-call controls */}
+          <AnimatePresence mode="wait">
+            {!isConnected ? (
+              <Lobby
+                key="lobby"
+                displayName={displayName}
+                onDisplayNameChange={setDisplayName}
+                onJoin={handleJoin}
+                joinError={room.ended ? describeCallEnd(room.ended) : joinError}
+                media={config.media}
+                segmentation={config.segmentation}
+                waiting={waiting}
+                onCancelWaiting={handleCancelWaiting}
+              />
+            ) : (
+              <motion.div key="in-call" className="flex items-center gap-3">
+                <MediaToggle
+                  off={micMuted}
+                  label={micMuted ? "Unmute microphone" : "Mute microphone"}
+                  onClick={() => handleToggleMedia("audio")}
+                >
+                  <MicIcon off={micMuted} />
+                </MediaToggle>
+                <MediaToggle
+                  off={cameraOff}
+                  label={cameraOff ? "Turn camera on" : "Turn camera off"}
+                  onClick={() => handleToggleMedia("video")}
+                >
+                  <CameraIcon off={cameraOff} />
+                </MediaToggle>
+                <DevicePicker
+                  stream={localStream}
+                  cameraId={backgroundProcessor?.source.getSettings().deviceId}
+                  microphoneId={audioProcessor?.source.getSettings().deviceId}
+                  speakerId={speakerId}
+                  onSelect={handleSelectDevice}
+                  audioProcessing={
+                    audioProcessor
+                      ? { value: audioSettings, onChange: handleAudioSettings }
+                      : undefined
+                  }
+                  background={
+                    BackgroundProcessor.isSupported()
+                      ? {
+                          value: backgroundEffect,
+                          onChange: handleSelectBackground,
+                          busy: backgroundBusy,
+                          degraded: backgroundDegraded,
+                        }
+                      : undefined
+                  }
+                />
+                <MediaToggle
+                  active={!!screenTrack}
+                  label={screenTrack ? "Stop sharing" : "Share screen"}
+                  onClick={handleToggleScreenShare}
+                >
+                  <ScreenIcon />
+                </MediaToggle>
+                <MediaToggle
+                  active={handRaised}
+                  label={handRaised ? "Lower hand" : "Raise hand"}
+                  onClick={handleToggleHand}
+                >
+                  <HandIcon />
+                </MediaToggle>
+                <ReactionPicker onReact={handleReact} />
+                <div className="relative">
+                  <MediaToggle
+                    active={chatOpen}
+                    label={
+                      unreadChat > 0
+                        ? `Open chat (${unreadChat} unread)`
+                        : chatOpen
+                          ? "Close chat"
+                          : "Open chat"
+                    }
+                    onClick={handleToggleChat}
+                  >
+                    <ChatIcon />
+                  </MediaToggle>
+                  <UnreadBadge count={unreadChat} />
+                </div>
+                <div className="relative">
+                  <MediaToggle
+                    active={participantsOpen}
+                    label={
+                      room.waiting.length > 0
+                        ? `Show participants (${room.waiting.length} waiting)`
+                        : role === "host" && room.raisedHands.length > 0
+                          ? `Show participants (${room.raisedHands.length} hands raised)`
+                          : participantsOpen
+                            ? "Hide participants"
+                            : "Show participants"
+                    }
+                    onClick={handleToggleParticipants}
+                  >
+                    <PeopleIcon />
+                  </MediaToggle>
+                  <UnreadBadge
+                    count={
+                      room.waiting.length +
+                      (role === "host" ? room.raisedHands.length : 0)
+                    }
+                  />
+                </div>
+                <MediaToggle
+                  active={recorderState !== "inactive"}
+                  label={
+                    recorderState === "inactive"
+                      ? "Record meeting"
+                      : "Stop recording and download"
+                  }
+                  onClick={
+                    recorderState === "inactive"
+                      ? startRecording
+                      : stopRecording
+                  }
+                >
+                  <RecordIcon />
+                </MediaToggle>
+                {recorderState !== "inactive" && (
+                  <MediaToggle
+                    active={recorderState === "paused"}
+                    label={
+                      recorderState === "paused"
+                        ? "Resume recording"
+                        : "Pause recording"
+                    }
+                    onClick={handleTogglePauseRecording}
+                  >
+                    {recorderState === "paused" ? (
+                      <RecordIcon />
+                    ) : (
+                      <PauseIcon />
+                    )}
+                  </MediaToggle>
+                )}
+                <MediaToggle
+                  active={statsOpen}
+                  label={
+                    statsOpen
+                      ? "Hide connection stats"
+                      : "Show connection stats"
+                  }
+                  onClick={() => setStatsOpen((open) => !open)}
+                >
+                  <StatsIcon />
+                </MediaToggle>
+                <MediaToggle
+                  active={layout === "spotlight"}
+                  label={
+                    layout === "spotlight"
+                      ? "Switch to grid view"
+                      : "Spotlight active speaker"
+                  }
+                  onClick={() =>
+                    setLayout((l) => (l === "spotlight" ? "grid" : "spotlight"))
+                  }
+                >
+                  <SpotlightIcon />
+                </MediaToggle>
+                <motion.button
+                  key="leave"
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.9 }}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.96 }}
+                  onClick={handleLeave}
+                  className="relative px-5 py-2.5 rounded-xl text-sm font-semibold overflow-hidden"
+                  style={{ fontFamily: "inherit" }}
+                >
+                  <div
+                    className="absolute inset-0"
+                    style={{
+                      background:
+                        "linear-gradient(135deg,rgba(239,68,68,0.85),rgba(220,38,38,0.7))",
+                    }}
+                  />
+                  <span className="relative text-white tracking-wide">
+                    Leave Conference
+                  </span>
+                </motion.button>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Video grid — only rendered after isConnected */}
+          <AnimatePresence>
+            {isConnected && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.45 }}
+                className="w-full max-w-5xl"
+              >
+                {presentation ? (
+                  /* Presenter layout: shared screen large, cameras in a strip */
+                  <div className="flex flex-col gap-4">
+                    <ScreenShareStage
+                      track={presentation.track}
+                      label={presentation.label}
+                      isLocal={presentation.isLocal}
+                    />
+                    <div
+                      className="grid gap-3 overflow-x-auto pb-1"
+                      style={stripStyle}
+                    >
+                      {renderTiles("strip")}
+                    </div>
+                  </div>
+                ) : spotlightId ? (
+                  /* Spotlight layout: active speaker large, everyone else below */
+                  <div className="flex flex-col gap-4">
+                    {renderRemoteTile(
+                      remoteParticipants.get(spotlightId)!,
+                      0,
+                      "stage",
+                    )}
+                    <div
+                      className="grid gap-3 overflow-x-auto pb-1"
+                      style={stripStyle}
+                    >
+                      {renderTiles("strip", spotlightId)}
+                    </div>
+                  </div>
+                ) : (
+                  <div
+                    className="grid gap-4"
+                    style={{
+                      gridTemplateColumns:
+                        onPage.length === 0
+                          ? "minmax(0,560px)"
+                          : onPage.length === 1
+                            ? "repeat(2,1fr)"
+                            : "repeat(auto-fill,minmax(280px,1fr))",
+                      justifyContent: onPage.length === 0 ? "center" : "start",
+                    }}
+                  >
+                    {renderTiles("grid")}
+                  </div>
+                )}
+
+                {pages > 1 && (
+                  <GridPager
+                    page={currentPage}
+                    pages={pages}
+                    onChange={setPage}
+                  />
+                )}
+                {offScreen.map((participant) => (
+                  <RemoteAudio
+                    key={participant.id}
+                    participantId={participant.id}
+                    sinkId={speakerId}
+                  />
+                ))}
+
+                <motion.p
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: 0.4 }}
+                  className="mt-4 text-xs text-center"
+                  style={{
+                    color: "rgba(255,255,255,0.22)",
+                    letterSpacing: "0.06em",
+                  }}
+                >
+                  Connected participants: {remoteParticipants.size + 1}{" "}
+                  (including you)
+                </motion.p>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+
+        <AnimatePresence>
+          {isConnected && chatOpen && (
+            <ChatPanel
+              messages={chatMessages}
+              localId={participantId}
+              nameOf={nameOf}
+              onSend={handleSendChat}
+              onClose={handleToggleChat}
+            />
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {isConnected && participantsOpen && (
+            <ParticipantsPanel
+              participants={[
+                {
+                  id: participantId,
+                  name: nameOf(participantId),
+                  role,
+                  audioMuted: micMuted,
+                  videoOff: cameraOff,
+                  isLocal: true,
+                },
+                ...[...remoteParticipants.values()].map((p) => ({
+                  id: p.id,
+                  name: displayNameOf(p),
+                  role: p.identity?.role,
+                  audioMuted: p.audioMuted || !p.audioTrack,
+                  videoOff: p.videoOff || !p.videoTrack,
+                })),
+              ]}
+              isHost={role === "host"}
+              locked={room.locked}
+              waitingRoom={room.waitingRoom}
+              waiting={room.waiting}
+              raisedHands={room.raisedHands.map((hand) => ({
+                id: hand.participantId,
+                name: nameOf(hand.participantId),
+              }))}
+              onLowerHand={handleLowerHand}
+              onToggleLock={handleToggleLock}
+              onToggleWaitingRoom={handleToggleWaitingRoom}
+              onAdmit={handleAdmit}
+              onDeny={handleDeny}
+              onRequestMute={handleRequestMute}
+              onStopMedia={handleStopMedia}
+              onRemove={handleRemove}
+              onClose={() => setParticipantsOpen(false)}
+            />
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {isConnected && statsOpen && (
+            <StatsPanel
+              snapshot={stats}
+              localId={participantId}
+              nameOf={nameOf}
+              onClose={() => setStatsOpen(false)}
+            />
+          )}
+        </AnimatePresence>
+
+        <motion.footer
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 1.1, duration: 0.6 }}
+          className="text-center pb-5"
+          style={{
+            color: "rgba(255,255,255,0.1)",
+            fontSize: "10px",
+            letterSpacing: "0.12em",
+          }}
+        >
+          NEXUS · MEDIASOUP · N:N
+        </motion.footer>
+      </div>
+    </div>
+  );
+};
+
+export default Conference;
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { type DeviceLists, listDevices } from "../mediaDevices";
+import { AudioProcessingSettings } from "./AudioProcessingSettings";
+import { BackgroundSelect } from "./BackgroundSelect";
+import { DeviceSelect } from "./DeviceSelect";
+import { SettingsIcon } from "./Icons";
+import { MediaToggle } from "./MediaToggle";
+
+export type DeviceKind = "videoinput" | "audioinput" | "audiooutput";
+
+const NO_DEVICES: DeviceLists = { cameras: [], microphones: [], speakers: [] };
+
+/* ─── In-call device picker ──────────────────────────────────────────────────
+   Settings button that opens a small panel of device selects, the
+   microphone processing switches and the background choice. The lists are
+   re-read on every devicechange so hot-plugged devices show up immediately.
+─────────────────────────────────────────────────────────────────────────── */
+export function DevicePicker({
+  stream,
+  cameraId,
+  microphoneId,
+  speakerId,
+  onSelect,
+  audioProcessing,
+  background,
+}: {
+  stream: MediaStream | null;
+  // a processed camera track doesn't report its device; this does
+  cameraId?: string;
+  // likewise for a processed microphone
+  microphoneId?: string;
+  speakerId?: string;
+  onSelect: (kind: DeviceKind, deviceId: string) => void;
+  // left out where the processing chain can't run
+  audioProcessing?: React.ComponentProps<typeof AudioProcessingSettings>;
+  // left out where virtual backgrounds aren't supported
+  background?: React.ComponentProps<typeof BackgroundSelect>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [devices, setDevices] = useState<DeviceLists>(NO_DEVICES);
+
+  useEffect(() => {
+    if (!open) return;
+    const refresh = () =>
+      listDevices().then(setDevices, (error) =>
+        console.error("Error listing devices:", error),
+      );
+    refresh();
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () =>
+      navigator.mediaDevices.removeEventListener("devicechange", refresh);
+  }, [open]);
+
+  const select = (kind: DeviceKind) => (deviceId: string) => {
+    onSelect(kind, deviceId);
+  };
+
+  return (
+    <div className="relative">
+      <MediaToggle
+        active={open}
+        label={open ? "Close device settings" : "Device settings"}
+        onClick={() => setOpen((o) => !o)}
+      >
+        <SettingsIcon />
+      </MediaToggle>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            transition={{ duration: 0.2 }}
+            className="absolute left-1/2 top-12 z-30 w-72 -translate-x-1/2 grid gap-3 p-4"
+            style={{
+              background: "rgba(10,10,18,0.92)",
+              backdropFilter: "blur(14px)",
+              border: "1px solid rgba(255,255,255,0.09)",
+              borderRadius: 16,
+              boxShadow: "0 24px 64px rgba(0,0,0,0.55)",
+            }}
+          >
+            <DeviceSelect
+              label="Camera"
+              devices={devices.cameras}
+              value={
+                cameraId ?? stream?.getVideoTracks()[0]?.getSettings().deviceId
+              }
+              onChange={select("videoinput")}
+            />
+            <DeviceSelect
+              label="Microphone"
+              devices={devices.microphones}
+              value={
+                microphoneId ??
+                stream?.getAudioTracks()[0]?.getSettings().deviceId
+              }
+              onChange={select("audioinput")}
+            />
+            {devices.speakers.length > 0 && (
+              <DeviceSelect
+                label="Speaker"
+                devices={devices.speakers}
+                value={speakerId}
+                onChange={select("audiooutput")}
+              />
+            )}
+            {audioProcessing && (
+              <AudioProcessingSettings {...audioProcessing} />
+            )}
+            {background && <BackgroundSelect {...background} />}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
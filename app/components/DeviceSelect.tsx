@@ -0,0 +1,43 @@
+/* ─── Device select ──────────────────────────────────────────────────────── */
+export function DeviceSelect({
+  label,
+  devices,
+  value,
+  onChange,
+}: {
+  label: string;
+  devices: MediaDeviceInfo[];
+  value?: string;
+  onChange: (deviceId: string) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1.5 text-xs">
+      <span style={{ color: "rgba(255,255,255,0.4)", letterSpacing: "0.06em" }}>
+        {label}
+      </span>
+      <select
+        value={value ?? devices[0]?.deviceId ?? ""}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={devices.length === 0}
+        className="px-3 py-2 rounded-xl text-sm outline-none disabled:opacity-40"
+        style={{
+          background: "rgba(255,255,255,0.04)",
+          border: "1px solid rgba(255,255,255,0.09)",
+          color: "rgba(255,255,255,0.82)",
+          fontFamily: "inherit",
+        }}
+      >
+        {devices.length === 0 && <option value="">Not available</option>}
+        {devices.map((device, i) => (
+          <option
+            key={device.deviceId}
+            value={device.deviceId}
+            style={{ background: "#0a0a12" }}
+          >
+            {device.label || `${label} ${i + 1}`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,488 @@
+"use client";
+
+import React, {
+  useEffect,
+  useEffectEvent,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { motion } from "framer-motion";
+import {
+  type BackgroundEffect,
+  BackgroundProcessor,
+  loadBackgroundEffect,
+  saveBackgroundEffect,
+} from "../backgroundEffects";
+import type { MediaConstraintDefaults, SegmentationAssets } from "../config";
+import {
+  type DeviceLists,
+  type DevicePreferences,
+  describeMediaError,
+  listDevices,
+  loadDevicePreferences,
+  openUserMedia,
+  saveDevicePreferences,
+} from "../mediaDevices";
+import { AvatarPlaceholder } from "./AvatarPlaceholder";
+import { BackgroundSelect } from "./BackgroundSelect";
+import { DeviceSelect } from "./DeviceSelect";
+import { CameraIcon, MicIcon } from "./Icons";
+import { MediaToggle } from "./MediaToggle";
+import { WaitingScreen } from "./WaitingScreen";
+
+export interface LobbyJoinOptions {
+  // null when the user joins without any device (e.g. permission denied)
+  stream: MediaStream | null;
+  micOff: boolean;
+  cameraOff: boolean;
+  devices: DevicePreferences;
+  // already drawing the camera in `stream` when a background is on
+  background: BackgroundProcessor | null;
+}
+
+const NO_DEVICES: DeviceLists = { cameras: [], microphones: [], speakers: [] };
+
+/* ─── Mic level meter ──────────────────────────────────────────────────────
+   Writes straight to the bar's style every animation frame so the lobby
+   itself doesn't re-render sixty times a second.
+─────────────────────────────────────────────────────────────────────────── */
+function MicLevelMeter({ track }: { track?: MediaStreamTrack }) {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const bar = barRef.current;
+    if (!bar || !track) return;
+
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    const source = context.createMediaStreamSource(new MediaStream([track]));
+    source.connect(analyser);
+    const buffer = new Float32Array(analyser.fftSize);
+
+    // Opened without a user gesture (e.g. straight from an invite link)
+    // the context starts suspended; the first click wakes it.
+    const resume = () => context.resume().catch(() => {});
+    resume();
+    document.addEventListener("pointerdown", resume, { once: true });
+
+    let frame = 0;
+    const tick = () => {
+      analyser.getFloatTimeDomainData(buffer);
+      let sum = 0;
+      for (const sample of buffer) sum += sample * sample;
+      const db = 20 * Math.log10(Math.sqrt(sum / buffer.length) || 1e-8);
+      const level = track.enabled
+        ? Math.min(Math.max((db + 60) / 50, 0), 1)
+        : 0;
+      bar.style.transform = `scaleX(${level})`;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener("pointerdown", resume);
+      source.disconnect();
+      context.close().catch(() => {});
+      bar.style.transform = "scaleX(0)";
+    };
+  }, [track]);
+
+  return (
+    <div
+      className="h-1.5 w-full rounded-full overflow-hidden"
+      style={{ background: "rgba(255,255,255,0.08)" }}
+    >
+      <div
+        ref={barRef}
+        className="h-full w-full rounded-full"
+        style={{
+          background: "linear-gradient(90deg,#10b981,#06b6d4)",
+          transform: "scaleX(0)",
+          transformOrigin: "left",
+          transition: "transform 60ms linear",
+        }}
+      />
+    </div>
+  );
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════
+   Lobby
+   Pre-join screen: pick devices, check the camera and mic, choose whether to
+   join muted. The preview stream is handed to the call on join rather than
+   reopened, so the camera doesn't blink off and on.
+═══════════════════════════════════════════════════════════════════════════ */
+export function Lobby({
+  displayName,
+  onDisplayNameChange,
+  onJoin,
+  joinError,
+  media,
+  segmentation,
+  waiting = false,
+  onCancelWaiting,
+}: {
+  displayName: string;
+  onDisplayNameChange: (name: string) => void;
+  // resolves true once the call owns the stream
+  onJoin: (options: LobbyJoinOptions) => Promise<boolean>;
+  joinError: string | null;
+  media: MediaConstraintDefaults;
+  segmentation: SegmentationAssets;
+  // joined, but held in the waiting room
+  waiting?: boolean;
+  onCancelWaiting?: () => void;
+}) {
+  const [prefs, setPrefs] = useState<DevicePreferences>(loadDevicePreferences);
+  const [devices, setDevices] = useState<DeviceLists>(NO_DEVICES);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [mediaError, setMediaError] = useState<string | null>(null);
+  const [micOff, setMicOff] = useState(false);
+  const [cameraOff, setCameraOff] = useState(false);
+  const [joining, setJoining] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  const [background, setBackground] =
+    useState<BackgroundEffect>(loadBackgroundEffect);
+  // the processor's output, while a background is on
+  const [processedTrack, setProcessedTrack] = useState<MediaStreamTrack | null>(
+    null,
+  );
+  const [backgroundBusy, setBackgroundBusy] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // once the call owns the preview stream we must not stop it on unmount
+  const handedOff = useRef(false);
+  const processorRef = useRef<BackgroundProcessor | null>(null);
+
+  // The processor gets a clone, so turning the effect off can fall back to
+  // the camera as opened.
+  const startBackground = async (
+    camera: MediaStreamTrack,
+    effect: BackgroundEffect,
+  ) => {
+    if (!BackgroundProcessor.isSupported()) return;
+    setBackgroundBusy(true);
+    try {
+      const processor = await BackgroundProcessor.create(
+        camera.clone(),
+        effect,
+        segmentation,
+      );
+      // The camera was switched or the lobby closed while the model loaded.
+      if (camera.readyState === "ended") {
+        processor.stop();
+        return;
+      }
+      processorRef.current = processor;
+      setProcessedTrack(processor.track);
+    } catch (error) {
+      console.error("Error starting background effect:", error);
+    } finally {
+      setBackgroundBusy(false);
+    }
+  };
+
+  const onCameraOpened = useEffectEvent((camera: MediaStreamTrack) => {
+    const processor = processorRef.current;
+    if (processor) processor.setSource(camera.clone());
+    else if (background.type !== "none") startBackground(camera, background);
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+
+    openUserMedia(
+      {
+        videoInputId: prefs.videoInputId,
+        audioInputId: prefs.audioInputId,
+      },
+      media,
+    )
+      .then(async (media) => {
+        if (cancelled) {
+          media.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        opened = media;
+        setStream(media);
+        setMediaError(null);
+        const camera = media.getVideoTracks()[0];
+        if (camera) onCameraOpened(camera);
+        setDevices(await listDevices());
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error opening camera/microphone:", error);
+        setStream(null);
+        setMediaError(describeMediaError(error));
+        listDevices().then(setDevices, () => {});
+      });
+
+    return () => {
+      cancelled = true;
+      if (opened && !handedOff.current) {
+        opened.getTracks().forEach((t) => t.stop());
+      }
+    };
+  }, [prefs.videoInputId, prefs.audioInputId, media, attempt]);
+
+  useEffect(
+    () => () => {
+      if (!handedOff.current) processorRef.current?.stop();
+    },
+    [],
+  );
+
+  // What joining would publish: the processed camera while a background
+  // is on, the camera as opened otherwise.
+  const previewStream = useMemo(
+    () =>
+      stream && processedTrack
+        ? new MediaStream([processedTrack, ...stream.getAudioTracks()])
+        : stream,
+    [stream, processedTrack],
+  );
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el || !previewStream) return;
+    el.srcObject = previewStream;
+    el.play().catch(() => {});
+    return () => {
+      el.srcObject = null;
+    };
+  }, [previewStream]);
+
+  // Mirror the toggles onto the tracks so the preview and meter react.
+  useEffect(() => {
+    stream?.getAudioTracks().forEach((t) => (t.enabled = !micOff));
+    stream?.getVideoTracks().forEach((t) => (t.enabled = !cameraOff));
+  }, [stream, micOff, cameraOff]);
+
+  const updatePrefs = (patch: DevicePreferences) => {
+    const next = { ...prefs, ...patch };
+    setPrefs(next);
+    saveDevicePreferences(next);
+  };
+
+  const handleSelectBackground = async (effect: BackgroundEffect) => {
+    setBackground(effect);
+    saveBackgroundEffect(effect);
+    const processor = processorRef.current;
+    if (effect.type === "none") {
+      processor?.stop();
+      processorRef.current = null;
+      setProcessedTrack(null);
+    } else if (processor) {
+      processor
+        .setEffect(effect)
+        .catch((error) => console.error("Error switching background:", error));
+    } else {
+      const camera = stream?.getVideoTracks()[0];
+      if (camera) await startBackground(camera, effect);
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!displayName.trim() || joining || backgroundBusy) return;
+    setJoining(true);
+    handedOff.current = true;
+    const devicesInUse: DevicePreferences = {
+      videoInputId: stream?.getVideoTracks()[0]?.getSettings().deviceId,
+      audioInputId: stream?.getAudioTracks()[0]?.getSettings().deviceId,
+      audioOutputId: prefs.audioOutputId,
+    };
+    saveDevicePreferences(devicesInUse);
+    const processor = processorRef.current;
+    const joined = await onJoin({
+      stream: previewStream,
+      micOff,
+      cameraOff,
+      devices: devicesInUse,
+      background: processor,
+    });
+    handedOff.current = joined;
+    if (!joined) setJoining(false);
+    // The call publishes the processor's output; the camera as opened
+    // stays with us, and nobody needs it any more.
+    else if (processor) stream?.getVideoTracks().forEach((t) => t.stop());
+  };
+
+  const hasVideo = !!stream?.getVideoTracks().length;
+  const audioTrack = stream?.getAudioTracks()[0];
+  const error = joinError ?? mediaError;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 16 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -16 }}
+      transition={{ duration: 0.65, delay: 0.28, ease: [0.22, 1, 0.36, 1] }}
+      className="w-full max-w-3xl grid gap-5 md:grid-cols-[1.4fr_1fr]"
+    >
+      {/* Preview */}
+      <div className="flex flex-col gap-3">
+        <div
+          className="relative rounded-2xl overflow-hidden"
+          style={{
+            border: "1px solid rgba(99,102,241,0.35)",
+            boxShadow: "0 24px 64px rgba(0,0,0,0.55)",
+          }}
+        >
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            className="w-full object-cover"
+            style={{
+              height: "260px",
+              background: "#0a0a12",
+              display: "block",
+              transform: "scaleX(-1)",
+            }}
+          />
+          {(cameraOff || !hasVideo) && (
+            <AvatarPlaceholder label={displayName || "You"} isLocal={true} />
+          )}
+          {/* the choice was handed to the call when we asked to join */}
+          <div
+            className="absolute bottom-3 inset-x-0 z-20 flex justify-center gap-3"
+            style={{ visibility: waiting ? "hidden" : "visible" }}
+          >
+            <MediaToggle
+              off={micOff}
+              label={micOff ? "Join with microphone on" : "Join muted"}
+              onClick={() => setMicOff((v) => !v)}
+            >
+              <MicIcon off={micOff} />
+            </MediaToggle>
+            <MediaToggle
+              off={cameraOff}
+              label={cameraOff ? "Join with camera on" : "Join with camera off"}
+              onClick={() => setCameraOff((v) => !v)}
+            >
+              <CameraIcon off={cameraOff} />
+            </MediaToggle>
+          </div>
+        </div>
+        <MicLevelMeter track={micOff ? undefined : audioTrack} />
+      </div>
+
+      {/* Settings + join, or the waiting room once we asked to join */}
+      {waiting ? (
+        <WaitingScreen onCancel={() => onCancelWaiting?.()} />
+      ) : (
+        <div className="flex flex-col gap-3">
+          <label className="flex flex-col gap-1.5 text-xs">
+            <span
+              style={{
+                color: "rgba(255,255,255,0.4)",
+                letterSpacing: "0.06em",
+              }}
+            >
+              Your name
+            </span>
+            <input
+              type="text"
+              value={displayName}
+              onChange={(e) => onDisplayNameChange(e.target.value)}
+              placeholder="How others will see you"
+              maxLength={64}
+              autoComplete="name"
+              className="px-4 py-2.5 rounded-xl text-sm outline-none transition-all duration-200"
+              style={{
+                background: "rgba(255,255,255,0.04)",
+                border: "1px solid rgba(255,255,255,0.09)",
+                color: "rgba(255,255,255,0.82)",
+                caretColor: "#6366f1",
+                fontFamily: "inherit",
+              }}
+              onFocus={(e) =>
+                (e.target.style.borderColor = "rgba(99,102,241,0.55)")
+              }
+              onBlur={(e) =>
+                (e.target.style.borderColor = "rgba(255,255,255,0.09)")
+              }
+            />
+          </label>
+          <DeviceSelect
+            label="Camera"
+            devices={devices.cameras}
+            value={prefs.videoInputId}
+            onChange={(videoInputId) => updatePrefs({ videoInputId })}
+          />
+          {hasVideo && BackgroundProcessor.isSupported() && (
+            <BackgroundSelect
+              value={background}
+              onChange={handleSelectBackground}
+              busy={backgroundBusy}
+            />
+          )}
+          <DeviceSelect
+            label="Microphone"
+            devices={devices.microphones}
+            value={prefs.audioInputId}
+            onChange={(audioInputId) => updatePrefs({ audioInputId })}
+          />
+          {/* Only Chromium exposes output devices */}
+          {devices.speakers.length > 0 && (
+            <DeviceSelect
+              label="Speaker"
+              devices={devices.speakers}
+              value={prefs.audioOutputId}
+              onChange={(audioOutputId) => updatePrefs({ audioOutputId })}
+            />
+          )}
+
+          {error && (
+            <div
+              role="alert"
+              className="px-3 py-2 rounded-xl text-xs leading-relaxed"
+              style={{
+                background: "rgba(239,68,68,0.1)",
+                border: "1px solid rgba(239,68,68,0.3)",
+                color: "#fca5a5",
+              }}
+            >
+              {error}
+              {mediaError && !joinError && (
+                <button
+                  onClick={() => setAttempt((n) => n + 1)}
+                  className="ml-2 underline"
+                  style={{ fontFamily: "inherit" }}
+                >
+                  Try again
+                </button>
+              )}
+            </div>
+          )}
+
+          <motion.button
+            whileHover={{ scale: 1.03 }}
+            whileTap={{ scale: 0.97 }}
+            onClick={handleJoin}
+            disabled={!displayName.trim() || joining || backgroundBusy}
+            className="relative mt-1 px-5 py-2.5 rounded-xl text-sm font-semibold overflow-hidden disabled:opacity-50"
+            style={{ fontFamily: "inherit" }}
+          >
+            <div
+              className="absolute inset-0"
+              style={{ background: "linear-gradient(135deg,#6366f1,#4f46e5)" }}
+            />
+            <span className="relative text-white tracking-wide">
+              {joining
+                ? "Joining…"
+                : stream
+                  ? "Join Conference"
+                  : "Join without camera or mic"}
+            </span>
+          </motion.button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import React from "react";
+import { motion } from "framer-motion";
+
+/* ─── Media toggle button ────────────────────────────────────────────────── */
+export function MediaToggle({
+  off,
+  active,
+  label,
+  onClick,
+  children,
+}: {
+  off?: boolean;
+  active?: boolean;
+  label: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <motion.button
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.9 }}
+      whileHover={{ scale: 1.05 }}
+      whileTap={{ scale: 0.96 }}
+      onClick={onClick}
+      title={label}
+      aria-label={label}
+      aria-pressed={off || active}
+      className="flex items-center justify-center h-10 w-10 rounded-xl"
+      style={{
+        background: off
+          ? "rgba(239,68,68,0.18)"
+          : active
+            ? "rgba(99,102,241,0.25)"
+            : "rgba(255,255,255,0.06)",
+        border: `1px solid ${off ? "rgba(239,68,68,0.4)" : active ? "rgba(99,102,241,0.55)" : "rgba(255,255,255,0.12)"}`,
+        color: off ? "#fca5a5" : active ? "#c7d2fe" : "rgba(255,255,255,0.82)",
+      }}
+    >
+      {children}
+    </motion.button>
+  );
+}
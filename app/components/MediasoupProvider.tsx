@@ -0,0 +1,92 @@
+"use client";
+
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { ConnectionState } from "../mediasoupClient";
+import {
+  type RemoteParticipant,
+  type RoomSnapshot,
+  RoomStore,
+  type TrackKind,
+  remoteTrack,
+} from "../roomStore";
+
+/* ─── MediasoupProvider ──────────────────────────────────────────────────────
+   One RoomStore per provider, read through useSyncExternalStore so every
+   component sees the same snapshot within a render. Unmounting the provider
+   hangs up; a strict-mode remount finds an idle store and leaves it be.
+─────────────────────────────────────────────────────────────────────────── */
+const RoomStoreContext = createContext<RoomStore | null>(null);
+
+export function MediasoupProvider({ children }: { children: React.ReactNode }) {
+  const [store] = useState(() => new RoomStore());
+
+  useEffect(() => () => store.leave(), [store]);
+
+  return (
+    <RoomStoreContext.Provider value={store}>
+      {children}
+    </RoomStoreContext.Provider>
+  );
+}
+
+function useRoomStore(): RoomStore {
+  const store = useContext(RoomStoreContext);
+  if (!store) {
+    throw new Error("Room hooks must be used inside MediasoupProvider");
+  }
+  return store;
+}
+
+// `select` must return something already in the snapshot (or a primitive),
+// never a fresh object, or React re-renders forever.
+function useRoomSnapshot<T>(select: (snapshot: RoomSnapshot) => T): T {
+  const store = useRoomStore();
+  const read = () => select(store.getSnapshot());
+  // No call is ever in progress while rendering on the server.
+  return useSyncExternalStore(store.subscribe, read, read);
+}
+
+/** The whole room, plus join and leave. */
+export function useRoom() {
+  const store = useRoomStore();
+  const snapshot = useRoomSnapshot((s) => s);
+  return { ...snapshot, join: store.join, leave: store.leave };
+}
+
+/** Everyone else in the call, in join order. */
+export function useParticipants(): ReadonlyMap<string, RemoteParticipant> {
+  return useRoomSnapshot((s) => s.participants);
+}
+
+/** Our published stream and its state, plus what changes it. */
+export function useLocalMedia() {
+  const store = useRoomStore();
+  const local = useRoomSnapshot((s) => s.local);
+  return {
+    ...local,
+    toggleMedia: store.toggleMedia,
+    replaceTrack: store.replaceTrack,
+    shareScreen: store.shareScreen,
+    stopScreenShare: store.stopScreenShare,
+  };
+}
+
+/** The track `participantId` currently sends of `kind`, if any. */
+export function useRemoteTrack(
+  participantId: string,
+  kind: TrackKind,
+): MediaStreamTrack | undefined {
+  return useRoomSnapshot((s) =>
+    remoteTrack(s.participants.get(participantId), kind),
+  );
+}
+
+export function useConnectionState(): ConnectionState {
+  return useRoomSnapshot((s) => s.connectionState);
+}
@@ -0,0 +1,355 @@
+"use client";
+
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import type { MediaKind } from "mediasoup-client/types";
+import type { ParticipantIdentity, ParticipantRole } from "../signaling";
+import { CameraIcon, LockIcon, MicIcon } from "./Icons";
+
+export interface ParticipantEntry {
+  id: string;
+  name: string;
+  role?: ParticipantRole;
+  audioMuted?: boolean;
+  videoOff?: boolean;
+  isLocal?: boolean;
+}
+
+function ActionButton({
+  label,
+  danger,
+  disabled,
+  onClick,
+}: {
+  label: string;
+  danger?: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="px-2 py-1 rounded-lg text-[11px] font-medium disabled:opacity-35"
+      style={{
+        background: danger ? "rgba(239,68,68,0.14)" : "rgba(255,255,255,0.06)",
+        border: `1px solid ${danger ? "rgba(239,68,68,0.35)" : "rgba(255,255,255,0.1)"}`,
+        color: danger ? "#fca5a5" : "rgba(255,255,255,0.75)",
+        fontFamily: "inherit",
+      }}
+    >
+      {label}
+    </button>
+  );
+}
+
+/* ─── Participants panel ─────────────────────────────────────────────────────
+   Everyone in the call with their mic/camera state. Hosts also get the
+   moderation actions, the raised hands, the room lock and the waiting
+   room; the server checks the role again, so hiding them from guests is
+   only a courtesy.
+─────────────────────────────────────────────────────────────────────────── */
+export function ParticipantsPanel({
+  participants,
+  isHost,
+  locked,
+  waitingRoom,
+  waiting,
+  raisedHands,
+  onLowerHand,
+  onToggleLock,
+  onToggleWaitingRoom,
+  onAdmit,
+  onDeny,
+  onRequestMute,
+  onStopMedia,
+  onRemove,
+  onClose,
+}: {
+  participants: ParticipantEntry[];
+  isHost: boolean;
+  locked: boolean;
+  waitingRoom: boolean;
+  // people a host has yet to admit; empty for guests
+  waiting: ParticipantIdentity[];
+  // in raise order
+  raisedHands: { id: string; name: string }[];
+  // everyone's when called without an id
+  onLowerHand: (id?: string) => void;
+  onToggleLock: () => void;
+  onToggleWaitingRoom: () => void;
+  // everyone waiting when called without ids
+  onAdmit: (ids?: string[]) => void;
+  onDeny: (ids?: string[]) => void;
+  onRequestMute: (id: string, kind: MediaKind) => void;
+  onStopMedia: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}) {
+  // removal takes a second click on the same row
+  const [confirmingRemove, setConfirmingRemove] = useState<string | null>(null);
+
+  return (
+    <motion.aside
+      initial={{ opacity: 0, x: 24 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 24 }}
+      transition={{ duration: 0.35, ease: [0.22, 1, 0.36, 1] }}
+      className="fixed right-6 bottom-6 z-40 w-80 flex flex-col rounded-2xl overflow-hidden"
+      style={{
+        maxHeight: "min(560px, 75vh)",
+        background: "rgba(10,10,18,0.92)",
+        backdropFilter: "blur(14px)",
+        border: "1px solid rgba(255,255,255,0.09)",
+        boxShadow: "0 24px 64px rgba(0,0,0,0.55)",
+      }}
+    >
+      <div
+        className="flex items-center justify-between px-4 py-3"
+        style={{ borderBottom: "1px solid rgba(255,255,255,0.07)" }}
+      >
+        <span
+          className="text-xs font-semibold"
+          style={{ color: "rgba(255,255,255,0.7)", letterSpacing: "0.06em" }}
+        >
+          Participants ({participants.length})
+        </span>
+        <div className="flex items-center gap-3">
+          {isHost && (
+            <button
+              onClick={onToggleLock}
+              aria-pressed={locked}
+              className="flex items-center gap-1.5 text-xs"
+              style={{
+                color: locked ? "#fbbf24" : "rgba(255,255,255,0.4)",
+                fontFamily: "inherit",
+              }}
+            >
+              <LockIcon open={!locked} size={13} />
+              {locked ? "Locked" : "Lock room"}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            aria-label="Close participants"
+            className="text-xs"
+            style={{ color: "rgba(255,255,255,0.4)", fontFamily: "inherit" }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {isHost && (
+        <label
+          className="flex items-center justify-between px-4 py-2 text-xs"
+          style={{
+            color: "rgba(255,255,255,0.55)",
+            borderBottom: "1px solid rgba(255,255,255,0.05)",
+          }}
+        >
+          Waiting room
+          <input
+            type="checkbox"
+            checked={waitingRoom}
+            onChange={onToggleWaitingRoom}
+            className="accent-indigo-500"
+          />
+        </label>
+      )}
+
+      {isHost && waiting.length > 0 && (
+        <div
+          className="flex flex-col gap-2 px-4 py-3"
+          style={{
+            background: "rgba(99,102,241,0.08)",
+            borderBottom: "1px solid rgba(255,255,255,0.05)",
+          }}
+        >
+          <div className="flex items-center justify-between">
+            <span
+              className="text-xs font-semibold"
+              style={{ color: "#c7d2fe", letterSpacing: "0.04em" }}
+            >
+              Waiting ({waiting.length})
+            </span>
+            {waiting.length > 1 && (
+              <div className="flex gap-1.5">
+                <ActionButton label="Admit all" onClick={() => onAdmit()} />
+                <ActionButton
+                  label="Deny all"
+                  danger
+                  onClick={() => onDeny()}
+                />
+              </div>
+            )}
+          </div>
+          <ul className="flex flex-col gap-2">
+            {waiting.map((person) => (
+              <li
+                key={person.participantId}
+                className="flex items-center gap-2 text-sm"
+              >
+                <span
+                  className="flex-1 truncate"
+                  style={{ color: "rgba(255,255,255,0.82)" }}
+                >
+                  {person.displayName}
+                </span>
+                <ActionButton
+                  label="Admit"
+                  onClick={() => onAdmit([person.participantId])}
+                />
+                <ActionButton
+                  label="Deny"
+                  danger
+                  onClick={() => onDeny([person.participantId])}
+                />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isHost && raisedHands.length > 0 && (
+        <div
+          className="flex flex-col gap-2 px-4 py-3"
+          style={{
+            background: "rgba(251,191,36,0.07)",
+            borderBottom: "1px solid rgba(255,255,255,0.05)",
+          }}
+        >
+          <div className="flex items-center justify-between">
+            <span
+              className="text-xs font-semibold"
+              style={{ color: "#fcd34d", letterSpacing: "0.04em" }}
+            >
+              Raised hands ({raisedHands.length})
+            </span>
+            <ActionButton label="Lower all" onClick={() => onLowerHand()} />
+          </div>
+          <ol className="flex flex-col gap-2">
+            {raisedHands.map((hand, i) => (
+              <li key={hand.id} className="flex items-center gap-2 text-sm">
+                <span
+                  className="w-4 text-xs tabular-nums"
+                  style={{ color: "rgba(255,255,255,0.35)" }}
+                >
+                  {i + 1}
+                </span>
+                <span
+                  className="flex-1 truncate"
+                  style={{ color: "rgba(255,255,255,0.82)" }}
+                >
+                  {hand.name}
+                </span>
+                <ActionButton
+                  label="Lower"
+                  onClick={() => onLowerHand(hand.id)}
+                />
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {locked && (
+        <p
+          className="px-4 py-2 text-xs"
+          style={{
+            color: "#fcd34d",
+            background: "rgba(251,191,36,0.08)",
+            borderBottom: "1px solid rgba(255,255,255,0.05)",
+          }}
+        >
+          The room is locked. Nobody new can join.
+        </p>
+      )}
+
+      <ul className="flex-1 overflow-y-auto px-4 py-3 flex flex-col gap-3">
+        {participants.map((participant) => (
+          <li key={participant.id} className="flex flex-col gap-1.5">
+            <div className="flex items-center gap-2 text-sm">
+              <span
+                className="flex-1 truncate"
+                style={{ color: "rgba(255,255,255,0.82)" }}
+              >
+                {participant.name}
+                {participant.isLocal && (
+                  <span style={{ color: "rgba(255,255,255,0.35)" }}>
+                    {" "}
+                    (you)
+                  </span>
+                )}
+              </span>
+              {participant.role === "host" && (
+                <span
+                  className="px-1.5 py-0.5 rounded-md text-[10px] font-semibold"
+                  style={{
+                    background: "rgba(99,102,241,0.2)",
+                    color: "#c7d2fe",
+                  }}
+                >
+                  Host
+                </span>
+              )}
+              <span
+                style={{
+                  color: participant.audioMuted
+                    ? "#fca5a5"
+                    : "rgba(255,255,255,0.5)",
+                }}
+              >
+                <MicIcon off={participant.audioMuted} size={14} />
+              </span>
+              <span
+                style={{
+                  color: participant.videoOff
+                    ? "#fca5a5"
+                    : "rgba(255,255,255,0.5)",
+                }}
+              >
+                <CameraIcon off={participant.videoOff} size={14} />
+              </span>
+            </div>
+
+            {isHost && !participant.isLocal && (
+              <div className="flex flex-wrap gap-1.5">
+                <ActionButton
+                  label="Mute"
+                  disabled={participant.audioMuted}
+                  onClick={() => onRequestMute(participant.id, "audio")}
+                />
+                <ActionButton
+                  label="Stop video"
+                  disabled={participant.videoOff}
+                  onClick={() => onRequestMute(participant.id, "video")}
+                />
+                <ActionButton
+                  label="Stop mic & camera"
+                  onClick={() => onStopMedia(participant.id)}
+                />
+                <ActionButton
+                  label={
+                    confirmingRemove === participant.id
+                      ? "Confirm remove"
+                      : "Remove"
+                  }
+                  danger
+                  onClick={() => {
+                    if (confirmingRemove !== participant.id) {
+                      setConfirmingRemove(participant.id);
+                      return;
+                    }
+                    setConfirmingRemove(null);
+                    onRemove(participant.id);
+                  }}
+                />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </motion.aside>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { REACTION_EMOJIS } from "../signaling";
+import { SmileIcon } from "./Icons";
+import { MediaToggle } from "./MediaToggle";
+
+export interface TileReaction {
+  // unique per page, so the same emoji twice floats twice
+  id: number;
+  emoji: string;
+}
+
+/* ─── Reaction picker ────────────────────────────────────────────────────── */
+export function ReactionPicker({
+  onReact,
+}: {
+  onReact: (emoji: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <MediaToggle
+        active={open}
+        label={open ? "Close reactions" : "Send a reaction"}
+        onClick={() => setOpen((o) => !o)}
+      >
+        <SmileIcon />
+      </MediaToggle>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            transition={{ duration: 0.2 }}
+            className="absolute left-1/2 top-12 z-30 -translate-x-1/2 flex gap-1 p-1.5 rounded-2xl"
+            style={{
+              background: "rgba(10,10,18,0.92)",
+              backdropFilter: "blur(14px)",
+              border: "1px solid rgba(255,255,255,0.09)",
+              boxShadow: "0 24px 64px rgba(0,0,0,0.55)",
+            }}
+          >
+            {REACTION_EMOJIS.map((emoji) => (
+              <motion.button
+                key={emoji}
+                type="button"
+                whileHover={{ scale: 1.2 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => onReact(emoji)}
+                aria-label={`React with ${emoji}`}
+                className="h-9 w-9 rounded-xl text-xl"
+              >
+                {emoji}
+              </motion.button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+/* ─── Floating reactions ─────────────────────────────────────────────────────
+   Drawn over a tile: each emoji rises from the bottom and fades out. The
+   caller drops it from the list once it's done (REACTION_MS).
+─────────────────────────────────────────────────────────────────────────── */
+export const REACTION_MS = 3000;
+
+export function FloatingReactions({
+  reactions,
+}: {
+  reactions: TileReaction[];
+}) {
+  return (
+    <div className="absolute inset-0 z-20 pointer-events-none overflow-hidden">
+      <AnimatePresence>
+        {reactions.map(({ id, emoji }) => (
+          <motion.span
+            key={id}
+            initial={{ opacity: 0, y: 0, scale: 0.6 }}
+            animate={{ opacity: [0, 1, 1, 0], y: -160, scale: 1.15 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: REACTION_MS / 1000, ease: "easeOut" }}
+            className="absolute bottom-12 text-4xl"
+            // spread bursts out a little so they don't stack exactly
+            style={{ left: `${30 + ((id * 37) % 40)}%` }}
+          >
+            {emoji}
+          </motion.span>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import React from "react";
+import { motion } from "framer-motion";
+import type { Quality, StatsSnapshot, StreamStats } from "../connectionStats";
+
+const QUALITY_COLOR: Record<Quality, string> = {
+  good: "#34d399",
+  fair: "#fbbf24",
+  poor: "#f87171",
+};
+
+const QUALITY_BARS: Record<Quality, number> = { good: 3, fair: 2, poor: 1 };
+
+/* ─── Signal bars shown on each tile ────────────────────────────────────── */
+export function SignalBars({ quality }: { quality: Quality }) {
+  const lit = QUALITY_BARS[quality];
+  return (
+    <span
+      className="flex items-end gap-0.5 h-6 px-1.5 py-1 rounded-lg"
+      title={`Connection: ${quality}`}
+      style={{
+        background: "rgba(0,0,0,0.65)",
+        backdropFilter: "blur(10px)",
+        border: "1px solid rgba(255,255,255,0.07)",
+      }}
+    >
+      {[0, 1, 2].map((i) => (
+        <span
+          key={i}
+          className="w-1 rounded-sm"
+          style={{
+            height: `${5 + i * 4}px`,
+            background:
+              i < lit ? QUALITY_COLOR[quality] : "rgba(255,255,255,0.18)",
+          }}
+        />
+      ))}
+    </span>
+  );
+}
+
+function formatBitrate(bps: number): string {
+  if (bps >= 1e6) return `${(bps / 1e6).toFixed(2)} Mbps`;
+  return `${Math.round(bps / 1e3)} kbps`;
+}
+
+const formatMs = (seconds?: number) =>
+  seconds === undefined ? "–" : `${Math.round(seconds * 1000)} ms`;
+
+function describeStream(stream: StreamStats): string {
+  const parts = [formatBitrate(stream.bitrate)];
+  if (stream.width && stream.height) {
+    parts.push(`${stream.width}×${stream.height}`);
+  }
+  if (stream.frameRate !== undefined) {
+    parts.push(`${Math.round(stream.frameRate)} fps`);
+  }
+  parts.push(`loss ${(stream.packetLoss * 100).toFixed(1)}%`);
+  parts.push(`jitter ${formatMs(stream.jitter)}`);
+  parts.push(`rtt ${formatMs(stream.rtt)}`);
+  return parts.join(" · ");
+}
+
+/* ─── Debug panel: every transport and stream from the latest poll ───────── */
+export function StatsPanel({
+  snapshot,
+  localId,
+  nameOf,
+  onClose,
+}: {
+  snapshot: StatsSnapshot | null;
+  localId: string;
+  nameOf: (participantId: string) => string;
+  onClose: () => void;
+}) {
+  return (
+    <motion.aside
+      initial={{ opacity: 0, x: -24 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -24 }}
+      transition={{ duration: 0.35, ease: [0.22, 1, 0.36, 1] }}
+      className="fixed left-6 bottom-6 z-40 w-96 flex flex-col rounded-2xl overflow-hidden"
+      style={{
+        maxHeight: "70vh",
+        background: "rgba(10,10,18,0.92)",
+        backdropFilter: "blur(14px)",
+        border: "1px solid rgba(255,255,255,0.09)",
+        boxShadow: "0 24px 64px rgba(0,0,0,0.55)",
+      }}
+    >
+      <div
+        className="flex items-center justify-between px-4 py-3"
+        style={{ borderBottom: "1px solid rgba(255,255,255,0.07)" }}
+      >
+        <span
+          className="text-xs font-semibold"
+          style={{ color: "rgba(255,255,255,0.7)", letterSpacing: "0.06em" }}
+        >
+          Connection stats
+        </span>
+        <button
+          onClick={onClose}
+          aria-label="Close connection stats"
+          className="text-xs"
+          style={{ color: "rgba(255,255,255,0.4)", fontFamily: "inherit" }}
+        >
+          Close
+        </button>
+      </div>
+
+      <div
+        className="flex-1 overflow-y-auto px-4 py-3 flex flex-col gap-4 text-xs"
+        style={{ fontFamily: "ui-monospace, monospace" }}
+      >
+        {!snapshot ? (
+          <p style={{ color: "rgba(255,255,255,0.25)" }}>Collecting stats…</p>
+        ) : (
+          <>
+            <section className="flex flex-col gap-1.5">
+              <h3 style={{ color: "rgba(255,255,255,0.4)" }}>Transports</h3>
+              {snapshot.transports.map((transport) => (
+                <div
+                  key={transport.id}
+                  style={{ color: "rgba(255,255,255,0.75)" }}
+                >
+                  {transport.direction} · {transport.state} · ↓
+                  {formatBitrate(transport.bitrateIn)} ↑
+                  {formatBitrate(transport.bitrateOut)} · rtt{" "}
+                  {formatMs(transport.rtt)}
+                  {transport.availableOutgoingBitrate !== undefined &&
+                    ` · est. ${formatBitrate(transport.availableOutgoingBitrate)}`}
+                </div>
+              ))}
+            </section>
+
+            <section className="flex flex-col gap-2">
+              <h3 style={{ color: "rgba(255,255,255,0.4)" }}>Streams</h3>
+              {snapshot.streams.map((stream) => (
+                <div key={stream.id} className="flex flex-col gap-0.5">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="h-1.5 w-1.5 rounded-full"
+                      style={{ background: QUALITY_COLOR[stream.quality] }}
+                    />
+                    <span style={{ color: "#c7d2fe" }}>
+                      {stream.participantId === localId
+                        ? "You"
+                        : nameOf(stream.participantId)}{" "}
+                      · {stream.direction} {stream.kind}
+                    </span>
+                  </div>
+                  <span style={{ color: "rgba(255,255,255,0.6)" }}>
+                    {describeStream(stream)}
+                  </span>
+                </div>
+              ))}
+            </section>
+          </>
+        )}
+      </div>
+    </motion.aside>
+  );
+}
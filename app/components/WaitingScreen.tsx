@@ -0,0 +1,60 @@
+"use client";
+
+import React from "react";
+import { motion } from "framer-motion";
+
+/* ─── Waiting room ───────────────────────────────────────────────────────────
+   Shown beside the lobby preview while a host decides whether to let us
+   in, so the camera stays on and joining is instant once admitted.
+─────────────────────────────────────────────────────────────────────────── */
+export function WaitingScreen({ onCancel }: { onCancel: () => void }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -12 }}
+      transition={{ duration: 0.45, ease: [0.22, 1, 0.36, 1] }}
+      role="status"
+      className="flex flex-col items-center justify-center gap-4 h-full px-6 py-8 rounded-2xl text-center"
+      style={{
+        background: "rgba(255,255,255,0.03)",
+        border: "1px solid rgba(255,255,255,0.08)",
+      }}
+    >
+      <div className="flex gap-1.5">
+        {[0, 1, 2].map((i) => (
+          <motion.span
+            key={i}
+            className="inline-block h-2 w-2 rounded-full"
+            style={{ background: "#6366f1" }}
+            animate={{ opacity: [0.25, 1, 0.25] }}
+            transition={{ duration: 1.2, repeat: Infinity, delay: i * 0.2 }}
+          />
+        ))}
+      </div>
+      <div className="flex flex-col gap-1.5">
+        <span
+          className="text-sm font-semibold"
+          style={{ color: "rgba(255,255,255,0.82)" }}
+        >
+          Waiting for the host to let you in
+        </span>
+        <span className="text-xs" style={{ color: "rgba(255,255,255,0.4)" }}>
+          You&apos;ll join as soon as someone admits you.
+        </span>
+      </div>
+      <button
+        onClick={onCancel}
+        className="px-4 py-2 rounded-xl text-xs font-medium"
+        style={{
+          background: "rgba(255,255,255,0.06)",
+          border: "1px solid rgba(255,255,255,0.1)",
+          color: "rgba(255,255,255,0.75)",
+          fontFamily: "inherit",
+        }}
+      >
+        Cancel
+      </button>
+    </motion.div>
+  );
+}
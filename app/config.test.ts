@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CONFIG, loadClientConfig } from "./config";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("loadClientConfig", () => {
+  it("falls back to the defaults when nothing is set", () => {
+    expect(loadClientConfig({})).toEqual(DEFAULT_CONFIG);
+  });
+
+  it("prefers plain env vars over their NEXT_PUBLIC_ twins", () => {
+    const config = loadClientConfig({
+      SIGNALING_URL: "wss://runtime.example.com",
+      NEXT_PUBLIC_SIGNALING_URL: "wss://build.example.com",
+      NEXT_PUBLIC_ICE_TRANSPORT_POLICY: "relay",
+    });
+
+    expect(config.signalingUrl).toBe("wss://runtime.example.com");
+    expect(config.iceTransportPolicy).toBe("relay");
+  });
+
+  it("turns an http(s) signaling URL into ws(s)", () => {
+    expect(
+      loadClientConfig({ SIGNALING_URL: "https://api.example.com/ws" })
+        .signalingUrl,
+    ).toBe("wss://api.example.com/ws");
+    expect(
+      loadClientConfig({ SIGNALING_URL: "http://localhost:4000" }).signalingUrl,
+    ).toBe("ws://localhost:4000");
+  });
+
+  it("accepts one ICE server or a list of them", () => {
+    const turn = { urls: ["turn:turn.example.com:3478"], username: "u" };
+    expect(
+      loadClientConfig({ ICE_SERVERS: JSON.stringify(turn) }).iceServers,
+    ).toEqual([turn]);
+    expect(
+      loadClientConfig({ ICE_SERVERS: JSON.stringify([turn, turn]) })
+        .iceServers,
+    ).toHaveLength(2);
+  });
+
+  it("merges media overrides per kind", () => {
+    const video = { frameRate: { ideal: 15 } };
+    const { media } = loadClientConfig({
+      MEDIA_CONSTRAINTS: JSON.stringify({ video }),
+    });
+
+    expect(media.video).toEqual(video);
+    expect(media.audio).toEqual(DEFAULT_CONFIG.media.audio);
+  });
+
+  it("takes media processing assets from absolute URLs or local paths", () => {
+    const { segmentation, noiseSuppressionUrl } = loadClientConfig({
+      SEGMENTATION_WASM_URL: "https://cdn.example.com/mediapipe/wasm/",
+      SEGMENTATION_MODEL_URL: "/models/selfie.tflite",
+      NOISE_SUPPRESSION_URL: "https://cdn.example.com/noise-suppressor/",
+    });
+
+    expect(segmentation).toEqual({
+      wasmUrl: "https://cdn.example.com/mediapipe/wasm",
+      modelUrl: "/models/selfie.tflite",
+    });
+    expect(noiseSuppressionUrl).toBe(
+      "https://cdn.example.com/noise-suppressor",
+    );
+  });
+
+  it("reads the grid page size", () => {
+    expect(loadClientConfig({ MAX_VISIBLE_TILES: "16" }).maxVisibleTiles).toBe(
+      16,
+    );
+  });
+
+  it("ignores invalid values with a warning", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const config = loadClientConfig({
+      SIGNALING_URL: "ftp://nope",
+      ICE_SERVERS: "[{",
+      ICE_TRANSPORT_POLICY: "none",
+      MEDIA_CONSTRAINTS: "[]",
+      SEGMENTATION_MODEL_URL: "model.tflite",
+      MAX_VISIBLE_TILES: "1",
+    });
+
+    expect(config).toEqual(DEFAULT_CONFIG);
+    expect(warn).toHaveBeenCalledTimes(6);
+  });
+});
@@ -0,0 +1,206 @@
+/* ─── Deployment configuration ──────────────────────────────────────────────
+   Resolved on the server for every room page, so one build can point at
+   any signaling server or TURN setup. Each setting is read from a plain env
+   var first (changeable without a rebuild), then its NEXT_PUBLIC_ twin
+   (inlined at build time), then the defaults below. Invalid values are
+   reported and ignored rather than taking the page down.
+─────────────────────────────────────────────────────────────────────────── */
+
+export interface MediaConstraintDefaults {
+  audio: MediaTrackConstraints;
+  video: MediaTrackConstraints;
+}
+
+// Where the person segmentation model for virtual backgrounds comes from.
+export interface SegmentationAssets {
+  // directory holding MediaPipe's vision_wasm_internal.{js,wasm}
+  wasmUrl: string;
+  // a selfie segmentation .tflite model
+  modelUrl: string;
+}
+
+export interface ClientConfig {
+  // ws:// or wss://; an http(s) URL is converted
+  signalingUrl: string;
+  // TURN/STUN servers on top of the candidates the SFU hands out
+  iceServers: RTCIceServer[];
+  // "relay" sends everything through TURN, for networks that block UDP
+  iceTransportPolicy: RTCIceTransportPolicy;
+  // applied to every getUserMedia call; device ids are added on top
+  media: MediaConstraintDefaults;
+  segmentation: SegmentationAssets;
+  // directory holding @sapphi-red/web-noise-suppressor's dist files (the
+  // RNNoise wasm and the worklet scripts) for microphone processing
+  noiseSuppressionUrl: string;
+  // tiles per page of the video grid, ours included; participants on other
+  // pages are heard but their video isn't received
+  maxVisibleTiles: number;
+}
+
+export const DEFAULT_CONFIG: ClientConfig = {
+  signalingUrl: "wss://api.caktushub.com",
+  iceServers: [],
+  iceTransportPolicy: "all",
+  media: {
+    audio: {
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+    },
+    video: {
+      width: { ideal: 1280 },
+      height: { ideal: 720 },
+      frameRate: { ideal: 30 },
+    },
+  },
+  // Served from public/, where scripts/media-assets.mjs copies the WASM of
+  // the installed @mediapipe/tasks-vision and downloads the model.
+  segmentation: {
+    wasmUrl: "/mediapipe/wasm",
+    modelUrl: "/mediapipe/selfie_segmenter.tflite",
+  },
+  // Likewise copied from the installed @sapphi-red/web-noise-suppressor.
+  noiseSuppressionUrl: "/noise-suppressor",
+  maxVisibleTiles: 9,
+};
+
+type Env = Record<string, string | undefined>;
+
+// Unset, empty and invalid all mean "use the default".
+function setting<T>(
+  env: Env,
+  name: string,
+  parse: (raw: string) => T | undefined,
+): T | undefined {
+  const raw = (env[name] ?? env[`NEXT_PUBLIC_${name}`])?.trim();
+  return raw ? parse(raw) : undefined;
+}
+
+function parseJson(name: string, raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn(`Ignoring ${name}: not valid JSON`);
+    return undefined;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function toWebSocketUrl(url: string): string {
+  return url.replace(/^http(s?):\/\//i, "ws$1://");
+}
+
+function parseSignalingUrl(raw: string): string | undefined {
+  const url = toWebSocketUrl(raw);
+  if (/^wss?:\/\/[^/\s]+/i.test(url)) return url;
+  console.warn(`Ignoring SIGNALING_URL: ${raw} is not a ws(s) or http(s) URL`);
+  return undefined;
+}
+
+// Absolute http(s) URLs, or paths on this origin.
+function parseAssetUrl(name: string) {
+  return (raw: string): string | undefined => {
+    if (/^(https?:\/\/[^/\s]+|\/)/i.test(raw)) return raw.replace(/\/+$/, "");
+    console.warn(`Ignoring ${name}: ${raw} is not an http(s) URL or a path`);
+    return undefined;
+  };
+}
+
+// Our own tile plus at least one other.
+function parseMaxVisibleTiles(raw: string): number | undefined {
+  const tiles = Number(raw);
+  if (Number.isInteger(tiles) && tiles >= 2) return tiles;
+  console.warn(
+    `Ignoring MAX_VISIBLE_TILES: expected a whole number of 2 or more`,
+  );
+  return undefined;
+}
+
+// A single server object or an array of them, as in RTCConfiguration.
+function parseIceServers(raw: string): RTCIceServer[] | undefined {
+  const value = parseJson("ICE_SERVERS", raw);
+  if (value === undefined) return undefined;
+  const servers = Array.isArray(value) ? value : [value];
+  const valid = servers.every(
+    (server) =>
+      isObject(server) &&
+      (typeof server.urls === "string" ||
+        (Array.isArray(server.urls) &&
+          server.urls.every((url) => typeof url === "string"))),
+  );
+  if (!valid) {
+    console.warn("Ignoring ICE_SERVERS: every entry needs `urls`");
+    return undefined;
+  }
+  return servers as RTCIceServer[];
+}
+
+function parseIceTransportPolicy(
+  raw: string,
+): RTCIceTransportPolicy | undefined {
+  if (raw === "all" || raw === "relay") return raw;
+  console.warn(`Ignoring ICE_TRANSPORT_POLICY: expected "all" or "relay"`);
+  return undefined;
+}
+
+// Partial overrides: {"video": {"frameRate": {"ideal": 15}}} keeps the
+// default audio constraints.
+function parseMediaConstraints(
+  raw: string,
+): Partial<MediaConstraintDefaults> | undefined {
+  const value = parseJson("MEDIA_CONSTRAINTS", raw);
+  if (value === undefined) return undefined;
+  if (
+    !isObject(value) ||
+    (value.audio !== undefined && !isObject(value.audio)) ||
+    (value.video !== undefined && !isObject(value.video))
+  ) {
+    console.warn("Ignoring MEDIA_CONSTRAINTS: expected {audio?, video?}");
+    return undefined;
+  }
+  return value as Partial<MediaConstraintDefaults>;
+}
+
+/** Builds the client configuration from environment variables. */
+export function loadClientConfig(env: Env = process.env): ClientConfig {
+  const media = setting(env, "MEDIA_CONSTRAINTS", parseMediaConstraints);
+  return {
+    signalingUrl:
+      setting(env, "SIGNALING_URL", parseSignalingUrl) ??
+      DEFAULT_CONFIG.signalingUrl,
+    iceServers:
+      setting(env, "ICE_SERVERS", parseIceServers) ?? DEFAULT_CONFIG.iceServers,
+    iceTransportPolicy:
+      setting(env, "ICE_TRANSPORT_POLICY", parseIceTransportPolicy) ??
+      DEFAULT_CONFIG.iceTransportPolicy,
+    media: {
+      audio: media?.audio ?? DEFAULT_CONFIG.media.audio,
+      video: media?.video ?? DEFAULT_CONFIG.media.video,
+    },
+    segmentation: {
+      wasmUrl:
+        setting(
+          env,
+          "SEGMENTATION_WASM_URL",
+          parseAssetUrl("SEGMENTATION_WASM_URL"),
+        ) ?? DEFAULT_CONFIG.segmentation.wasmUrl,
+      modelUrl:
+        setting(
+          env,
+          "SEGMENTATION_MODEL_URL",
+          parseAssetUrl("SEGMENTATION_MODEL_URL"),
+        ) ?? DEFAULT_CONFIG.segmentation.modelUrl,
+    },
+    noiseSuppressionUrl:
+      setting(
+        env,
+        "NOISE_SUPPRESSION_URL",
+        parseAssetUrl("NOISE_SUPPRESSION_URL"),
+      ) ?? DEFAULT_CONFIG.noiseSuppressionUrl,
+    maxVisibleTiles:
+      setting(env, "MAX_VISIBLE_TILES", parseMaxVisibleTiles) ??
+      DEFAULT_CONFIG.maxVisibleTiles,
+  };
+}
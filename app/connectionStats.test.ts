@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { gradeQuality, StatsSampler, worstQuality } from "./connectionStats";
+
+let now = 0;
+
+function report(...stats: Record<string, unknown>[]): RTCStatsReport {
+  return new Map(
+    stats.map((s, i) => [`stat-${i}`, { id: `stat-${i}`, ...s }]),
+  ) as unknown as RTCStatsReport;
+}
+
+const inbound = (bytesReceived: number, packetsReceived = 0, packetsLost = 0) =>
+  report({ type: "inbound-rtp", bytesReceived, packetsReceived, packetsLost });
+
+beforeEach(() => {
+  now = 0;
+  vi.spyOn(performance, "now").mockImplementation(() => now);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("gradeQuality", () => {
+  it("grades on the worst of loss, RTT and jitter", () => {
+    expect(gradeQuality({ packetLoss: 0 })).toBe("good");
+    expect(gradeQuality({ packetLoss: 0, rtt: 0.3 })).toBe("fair");
+    expect(gradeQuality({ packetLoss: 0.2, rtt: 0.01 })).toBe("poor");
+  });
+
+  it("moves up a grade only past each threshold", () => {
+    expect(gradeQuality({ packetLoss: 0.03 })).toBe("good");
+    expect(gradeQuality({ packetLoss: 0.031 })).toBe("fair");
+    expect(gradeQuality({ packetLoss: 0.1 })).toBe("fair");
+    expect(gradeQuality({ packetLoss: 0.101 })).toBe("poor");
+
+    expect(gradeQuality({ packetLoss: 0, rtt: 0.25 })).toBe("good");
+    expect(gradeQuality({ packetLoss: 0, rtt: 0.251 })).toBe("fair");
+    expect(gradeQuality({ packetLoss: 0, rtt: 0.5 })).toBe("fair");
+    expect(gradeQuality({ packetLoss: 0, rtt: 0.501 })).toBe("poor");
+
+    expect(gradeQuality({ packetLoss: 0, jitter: 0.05 })).toBe("good");
+    expect(gradeQuality({ packetLoss: 0, jitter: 0.051 })).toBe("fair");
+    expect(gradeQuality({ packetLoss: 0, jitter: 0.1 })).toBe("fair");
+    expect(gradeQuality({ packetLoss: 0, jitter: 0.101 })).toBe("poor");
+  });
+
+  it("takes the worst grade of a set", () => {
+    expect(worstQuality([])).toBe("good");
+    expect(worstQuality(["good", "poor", "fair"])).toBe("poor");
+  });
+});
+
+describe("StatsSampler.stream", () => {
+  it("reports nothing until there is a previous sample", () => {
+    const sampler = new StatsSampler();
+
+    expect(sampler.stream("c1", "recv", inbound(5000, 100))).toMatchObject({
+      bitrate: 0,
+      packetLoss: 0,
+    });
+  });
+
+  it("diffs a rising byte counter into bits per second", () => {
+    const sampler = new StatsSampler();
+    sampler.stream("c1", "recv", inbound(1000));
+
+    now = 2000;
+    expect(sampler.stream("c1", "recv", inbound(51000)).bitrate).toBe(200000);
+    now = 3000;
+    expect(sampler.stream("c1", "recv", inbound(51000)).bitrate).toBe(0);
+  });
+
+  it("measures loss over the last interval only", () => {
+    const sampler = new StatsSampler();
+    sampler.stream("c1", "recv", inbound(0, 1000, 500));
+
+    now = 1000;
+    expect(sampler.stream("c1", "recv", inbound(0, 1090, 510)).packetLoss).toBe(
+      0.1,
+    );
+  });
+
+  it("reads zero rather than a negative rate after a counter reset", () => {
+    const sampler = new StatsSampler();
+    sampler.stream("c1", "recv", inbound(90000, 1000, 50));
+
+    now = 1000;
+    expect(sampler.stream("c1", "recv", inbound(1000, 10, 0))).toMatchObject({
+      bitrate: 0,
+      packetLoss: 0,
+    });
+    // and carries on from the new baseline
+    now = 2000;
+    expect(sampler.stream("c1", "recv", inbound(2000, 20, 0)).bitrate).toBe(
+      8000,
+    );
+  });
+
+  it("sums simulcast encodings and prefers the receiver's loss report", () => {
+    const sampler = new StatsSampler();
+    const sent = (low: number, high: number) =>
+      report(
+        { type: "outbound-rtp", bytesSent: low, frameWidth: 320 },
+        { type: "outbound-rtp", bytesSent: high, frameWidth: 1280 },
+        { type: "remote-inbound-rtp", fractionLost: 0.05, roundTripTime: 0.2 },
+      );
+    sampler.stream("p1", "send", sent(0, 0));
+
+    now = 1000;
+    expect(sampler.stream("p1", "send", sent(1000, 4000))).toMatchObject({
+      bitrate: 40000,
+      packetLoss: 0.05,
+      rtt: 0.2,
+      width: 1280,
+    });
+  });
+
+  it("starts over for streams it was told to forget", () => {
+    const sampler = new StatsSampler();
+    sampler.stream("c1", "recv", inbound(1000));
+    sampler.retain([]);
+
+    now = 1000;
+    expect(sampler.stream("c1", "recv", inbound(9000)).bitrate).toBe(0);
+  });
+});
+
+describe("StatsSampler.transport", () => {
+  it("diffs both directions of the selected candidate pair", () => {
+    const sampler = new StatsSampler();
+    const pair = (bytesReceived: number, bytesSent: number) =>
+      report(
+        { type: "transport", selectedCandidatePairId: "stat-1" },
+        {
+          type: "candidate-pair",
+          bytesReceived,
+          bytesSent,
+          currentRoundTripTime: 0.04,
+        },
+      );
+    sampler.transport("t1", pair(0, 0));
+
+    now = 1000;
+    expect(sampler.transport("t1", pair(2000, 500))).toMatchObject({
+      bitrateIn: 16000,
+      bitrateOut: 4000,
+      rtt: 0.04,
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import type { MediaKind } from "mediasoup-client/types";
+
+/* ─── WebRTC stats → per-stream connection quality ──────────────────────────
+   RTCStatsReport counters are cumulative, so each poll is diffed against
+   the previous sample of the same producer/consumer/transport to get rates
+   and loss over the last interval.
+─────────────────────────────────────────────────────────────────────────── */
+
+export type Quality = "good" | "fair" | "poor";
+
+export interface StreamStats {
+  // producer id for what we send, consumer id for what we receive
+  id: string;
+  direction: "send" | "recv";
+  kind: MediaKind;
+  participantId: string;
+  producerId: string;
+  // bits per second over the last interval
+  bitrate: number;
+  // fraction of packets lost over the last interval, 0–1
+  packetLoss: number;
+  // seconds
+  jitter?: number;
+  // seconds
+  rtt?: number;
+  frameRate?: number;
+  width?: number;
+  height?: number;
+  quality: Quality;
+}
+
+export interface TransportStats {
+  id: string;
+  direction: "send" | "recv";
+  state: string;
+  // bits per second over the last interval
+  bitrateIn: number;
+  bitrateOut: number;
+  rtt?: number;
+  // congestion controller's estimate, send transports only
+  availableOutgoingBitrate?: number;
+}
+
+export interface StatsSnapshot {
+  at: number;
+  streams: StreamStats[];
+  transports: TransportStats[];
+}
+
+export type StreamMetrics = Omit<
+  StreamStats,
+  "id" | "direction" | "kind" | "participantId" | "producerId" | "quality"
+>;
+
+interface Counters {
+  at: number;
+  bytes: number;
+  bytesOut: number;
+  packets: number;
+  packetsLost: number;
+}
+
+// RTCStats entries are typed loosely by the DOM lib; read fields by name.
+type StatsEntry = Record<string, unknown> & { type: string; id: string };
+
+const num = (value: unknown): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+function entries(report: RTCStatsReport): StatsEntry[] {
+  return [...report.values()] as StatsEntry[];
+}
+
+// The selected ICE candidate pair carries the transport-level RTT.
+function selectedPair(report: RTCStatsReport): StatsEntry | undefined {
+  const all = entries(report);
+  const transport = all.find((s) => s.type === "transport");
+  const selectedId = transport?.selectedCandidatePairId;
+  return (
+    all.find((s) => s.id === selectedId) ??
+    all.find(
+      (s) =>
+        s.type === "candidate-pair" && s.nominated && s.state === "succeeded",
+    )
+  );
+}
+
+/** Grades a stream by its loss and round-trip time. */
+export function gradeQuality({
+  packetLoss,
+  rtt,
+  jitter,
+}: Pick<StreamMetrics, "packetLoss" | "rtt" | "jitter">): Quality {
+  if (packetLoss > 0.1 || (rtt ?? 0) > 0.5 || (jitter ?? 0) > 0.1) {
+    return "poor";
+  }
+  if (packetLoss > 0.03 || (rtt ?? 0) > 0.25 || (jitter ?? 0) > 0.05) {
+    return "fair";
+  }
+  return "good";
+}
+
+const QUALITY_RANK: Record<Quality, number> = { good: 2, fair: 1, poor: 0 };
+
+/** Worst of the given grades; "good" when there are none. */
+export function worstQuality(qualities: Iterable<Quality>): Quality {
+  let worst: Quality = "good";
+  for (const quality of qualities) {
+    if (QUALITY_RANK[quality] < QUALITY_RANK[worst]) worst = quality;
+  }
+  return worst;
+}
+
+export class StatsSampler {
+  private previous = new Map<string, Counters>();
+
+  /** Metrics for a producer (`send`) or consumer (`recv`) stats report. */
+  public stream(
+    id: string,
+    direction: "send" | "recv",
+    report: RTCStatsReport,
+  ): StreamMetrics {
+    const all = entries(report);
+    const rtpType = direction === "send" ? "outbound-rtp" : "inbound-rtp";
+    // Simulcast producers report one outbound-rtp entry per encoding.
+    const rtp = all.filter((s) => s.type === rtpType);
+    const remote = all.filter((s) => s.type === "remote-inbound-rtp");
+
+    let bytes = 0;
+    let packets = 0;
+    let packetsLost = 0;
+    let frameRate: number | undefined;
+    let width: number | undefined;
+    let height: number | undefined;
+    let jitter: number | undefined;
+    for (const s of rtp) {
+      bytes += num(direction === "send" ? s.bytesSent : s.bytesReceived) ?? 0;
+      packets +=
+        num(direction === "send" ? s.packetsSent : s.packetsReceived) ?? 0;
+      packetsLost += num(s.packetsLost) ?? 0;
+      jitter = num(s.jitter) ?? jitter;
+      // the top layer is what "resolution" means to a person
+      if ((num(s.frameWidth) ?? 0) >= (width ?? 0)) {
+        width = num(s.frameWidth);
+        height = num(s.frameHeight);
+        frameRate = num(s.framesPerSecond) ?? frameRate;
+      }
+    }
+
+    // On the send side loss, jitter and RTT come from the receiver's reports.
+    let rtt: number | undefined;
+    let remoteLoss: number | undefined;
+    for (const s of remote) {
+      const remoteRtt = num(s.roundTripTime);
+      if (remoteRtt !== undefined) rtt = Math.max(rtt ?? 0, remoteRtt);
+      remoteLoss = Math.max(remoteLoss ?? 0, num(s.fractionLost) ?? 0);
+      jitter = num(s.jitter) ?? jitter;
+    }
+    if (rtt === undefined)
+      rtt = num(selectedPair(report)?.currentRoundTripTime);
+
+    const now = performance.now();
+    const last = this.previous.get(id);
+    this.previous.set(id, {
+      at: now,
+      bytes,
+      bytesOut: 0,
+      packets,
+      packetsLost,
+    });
+
+    let bitrate = 0;
+    let packetLoss = remoteLoss ?? 0;
+    if (last && now > last.at) {
+      bitrate = Math.max(
+        0,
+        ((bytes - last.bytes) * 8 * 1000) / (now - last.at),
+      );
+      const lost = packetsLost - last.packetsLost;
+      const total = packets - last.packets + lost;
+      if (remoteLoss === undefined && total > 0) {
+        packetLoss = Math.min(Math.max(lost / total, 0), 1);
+      }
+    }
+
+    return { bitrate, packetLoss, jitter, rtt, frameRate, width, height };
+  }
+
+  /** Metrics for a transport's stats report. */
+  public transport(
+    id: string,
+    report: RTCStatsReport,
+  ): Pick<
+    TransportStats,
+    "bitrateIn" | "bitrateOut" | "rtt" | "availableOutgoingBitrate"
+  > {
+    const pair = selectedPair(report);
+    const bytes = num(pair?.bytesReceived) ?? 0;
+    const bytesOut = num(pair?.bytesSent) ?? 0;
+
+    const now = performance.now();
+    const last = this.previous.get(id);
+    this.previous.set(id, {
+      at: now,
+      bytes,
+      bytesOut,
+      packets: 0,
+      packetsLost: 0,
+    });
+
+    const rate = (current: number, before?: number) =>
+      last && before !== undefined && now > last.at
+        ? Math.max(0, ((current - before) * 8 * 1000) / (now - last.at))
+        : 0;
+
+    return {
+      bitrateIn: rate(bytes, last?.bytes),
+      bitrateOut: rate(bytesOut, last?.bytesOut),
+      rtt: num(pair?.currentRoundTripTime),
+      availableOutgoingBitrate: num(pair?.availableOutgoingBitrate),
+    };
+  }
+
+  /** Forgets samples for everything not in `ids`. */
+  public retain(ids: Iterable<string>): void {
+    const keep = new Set(ids);
+    for (const id of this.previous.keys()) {
+      if (!keep.has(id)) this.previous.delete(id);
+    }
+  }
+}
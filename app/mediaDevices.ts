@@ -0,0 +1,106 @@
+import { DEFAULT_CONFIG, type MediaConstraintDefaults } from "./config";
+
+/* ─── Device selection helpers shared by the lobby and the call ───────────── */
+
+export interface DevicePreferences {
+  videoInputId?: string;
+  audioInputId?: string;
+  audioOutputId?: string;
+}
+
+export interface DeviceLists {
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  speakers: MediaDeviceInfo[];
+}
+
+const STORAGE_KEY = "nexus.devices";
+
+export function loadDevicePreferences(): DevicePreferences {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as DevicePreferences) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveDevicePreferences(prefs: DevicePreferences): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  } catch {
+    // private mode / storage full — remembering devices is best effort
+  }
+}
+
+// Labels are empty until the page holds a media permission, so call this
+// after getUserMedia has succeeded at least once.
+export async function listDevices(): Promise<DeviceLists> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    cameras: devices.filter((d) => d.kind === "videoinput"),
+    microphones: devices.filter((d) => d.kind === "audioinput"),
+    speakers: devices.filter((d) => d.kind === "audiooutput"),
+  };
+}
+
+// `ideal` rather than `exact`: a remembered device that has since been
+// unplugged falls back to the default instead of failing.
+export function constraintsFor(
+  prefs: DevicePreferences,
+  media: MediaConstraintDefaults = DEFAULT_CONFIG.media,
+): MediaStreamConstraints {
+  return {
+    video: prefs.videoInputId
+      ? { ...media.video, deviceId: { ideal: prefs.videoInputId } }
+      : media.video,
+    audio: prefs.audioInputId
+      ? { ...media.audio, deviceId: { ideal: prefs.audioInputId } }
+      : media.audio,
+  };
+}
+
+/**
+ * Opens camera and microphone together, falling back to whichever one is
+ * available when the other is missing or busy. Permission denial is never
+ * retried piecemeal — it is rethrown for the caller to explain.
+ */
+export async function openUserMedia(
+  prefs: DevicePreferences,
+  media?: MediaConstraintDefaults,
+): Promise<MediaStream> {
+  const constraints = constraintsFor(prefs, media);
+  try {
+    return await navigator.mediaDevices.getUserMedia(constraints);
+  } catch (error) {
+    if ((error as DOMException).name === "NotAllowedError") throw error;
+
+    for (const partial of [
+      { audio: constraints.audio },
+      { video: constraints.video },
+    ]) {
+      try {
+        return await navigator.mediaDevices.getUserMedia(partial);
+      } catch {
+        // try the next one
+      }
+    }
+    throw error;
+  }
+}
+
+export function describeMediaError(error: unknown): string {
+  switch ((error as DOMException | undefined)?.name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "Camera and microphone access is blocked. Allow it from the address bar or your browser's site settings, then try again.";
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return "No camera or microphone was found. Connect one and try again.";
+    case "NotReadableError":
+    case "AbortError":
+      return "Your camera or microphone is in use by another app. Close it and try again.";
+    default:
+      return "Couldn't start your camera or microphone.";
+  }
+}
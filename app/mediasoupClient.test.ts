@@ -0,0 +1,996 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MediasoupClient } from "./mediasoupClient";
+import type { ProducerInfo } from "./signaling";
+import {
+  FakeDevice,
+  fakeTrack,
+  type FakeTransport,
+} from "./testing/fakeMediasoup";
+import {
+  FakeSignalingServer,
+  FakeWebSocket,
+} from "./testing/fakeSignalingServer";
+
+vi.mock("mediasoup-client", async () => ({
+  Device: (await import("./testing/fakeMediasoup")).FakeDevice,
+}));
+
+let server: FakeSignalingServer;
+
+function createClient(options = {}, participantId = "alice"): MediasoupClient {
+  return new MediasoupClient("ws://signaling.test", "room-1", participantId, {
+    statsIntervalMs: 0,
+    ...options,
+  });
+}
+
+function recvTransports(): FakeTransport[] {
+  return FakeDevice.latest.transports.filter((t) => t.direction === "recv");
+}
+
+beforeEach(() => {
+  server = new FakeSignalingServer();
+  FakeDevice.instances = [];
+  vi.stubGlobal("WebSocket", server.WebSocket);
+  // Node has no navigator.mediaDevices; the client treats it as optional
+  vi.stubGlobal("navigator", {});
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  // let close events from disconnect() fire while console.log is still muted
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("connect", () => {
+  it("joins, then loads the device, then opens the send transport", async () => {
+    const client = createClient();
+    let deviceAtJoin: FakeDevice | undefined;
+    client.on("joined", () => {
+      deviceAtJoin = FakeDevice.instances[0];
+    });
+
+    await client.connect();
+
+    expect(server.received.map((m) => m.type)).toEqual([
+      "join",
+      "getRtpCapabilities",
+      "createProducerTransport",
+    ]);
+    expect(deviceAtJoin).toBeUndefined();
+    expect(FakeDevice.latest.loaded).toBe(true);
+    expect(client.connectionState).toBe("connected");
+    client.disconnect();
+  });
+
+  it("fails when the server refuses the join", async () => {
+    server.failNext("join", "Room is full");
+    const client = createClient();
+
+    await expect(client.connect()).rejects.toThrow("Room is full");
+    expect(client.connectionState).toBe("failed");
+    expect(server.requests("getRtpCapabilities")).toHaveLength(0);
+    client.disconnect();
+  });
+
+  it("holds producers back until the device has loaded", async () => {
+    const bob = server.addRemote("bob", ["audio", "video"]);
+    // carol starts publishing after our join but before the capabilities reply
+    let carol: ProducerInfo[] = [];
+    server.after("join", () => {
+      carol = server.addRemote("carol", ["video"]);
+    });
+
+    const client = createClient();
+    const announced: { producerId: string; deviceLoaded: boolean }[] = [];
+    client.on("newProducer", (producer: ProducerInfo) => {
+      announced.push({
+        producerId: producer.producerId,
+        deviceLoaded: FakeDevice.instances.at(-1)?.loaded ?? false,
+      });
+    });
+
+    await client.connect();
+
+    expect(announced.map((p) => p.producerId)).toEqual(
+      [...bob, ...carol].map((p) => p.producerId),
+    );
+    expect(announced.every((p) => p.deviceLoaded)).toBe(true);
+    client.disconnect();
+  });
+});
+
+describe("tokens", () => {
+  it("sends the token with join and refreshes it before rejoining", async () => {
+    const refreshToken = vi.fn(async (current: string) => `${current}+1`);
+    const client = createClient({
+      token: "token-0",
+      refreshToken,
+      reconnect: { initialDelayMs: 1 },
+    });
+    await client.connect();
+    expect(server.requests("join").map((m) => m.token)).toEqual(["token-0"]);
+
+    const reconnected = new Promise<void>((resolve) =>
+      client.once("reconnected", resolve),
+    );
+    server.disconnect("alice");
+    await reconnected;
+
+    expect(refreshToken).toHaveBeenCalledWith("token-0");
+    expect(server.requests("join").map((m) => m.token)).toEqual([
+      "token-0",
+      "token-0+1",
+    ]);
+    client.disconnect();
+  });
+});
+
+describe("reconnect", () => {
+  it("keeps participants without producers and drops those who left meanwhile", async () => {
+    server.addRemote("bob", []);
+    server.addRemote("carol", []);
+    const client = createClient({ reconnect: { initialDelayMs: 1 } });
+    await client.connect();
+    const left: string[] = [];
+    client.on("participantLeft", (id) => left.push(id));
+
+    const reconnected = new Promise<void>((resolve) =>
+      client.once("reconnected", resolve),
+    );
+    server.disconnect("alice");
+    // nobody can tell us while we're away
+    server.removeRemote("carol");
+    await reconnected;
+
+    expect(left).toEqual(["carol"]);
+    client.disconnect();
+  });
+
+  it("pauses again what was paused when the media has to be rebuilt", async () => {
+    const client = createClient({ reconnect: { initialDelayMs: 1 } });
+    await client.connect();
+    await client.produceTrack(fakeTrack("audio"));
+    await client.produceTrack(fakeTrack("video"));
+    await client.pauseProducer("audio");
+
+    const reconnected = new Promise<void>((resolve) =>
+      client.once("reconnected", resolve),
+    );
+    // a failed ICE restart means new transports and new producers
+    server.failNext("restartIce", "Transport gone");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    server.disconnect("alice");
+    await reconnected;
+
+    const [audio, video] = FakeDevice.latest.transports[0].producers;
+    expect(server.requests("pauseProducer").map((m) => m.producerId)).toEqual([
+      expect.any(String),
+      audio.id,
+    ]);
+    expect(audio.paused).toBe(true);
+    expect(video.paused).toBe(false);
+    expect(client.isProducerPaused("audio")).toBe(true);
+    client.disconnect();
+  });
+
+  it("closes consumers of producers that stopped meanwhile", async () => {
+    const [audio, video] = server.addRemote("bob", ["audio", "video"]);
+    const client = createClient({ reconnect: { initialDelayMs: 1 } });
+    await client.connect();
+    await client.consumeTrack("bob", audio.producerId);
+    await client.consumeTrack("bob", video.producerId);
+    const [audioConsumer, videoConsumer] = recvTransports()[0].consumers;
+    const closed: ProducerInfo[] = [];
+    const announced: string[] = [];
+    client.on("producerClosed", (producer) => closed.push(producer));
+    client.on("newProducer", (producer) => announced.push(producer.producerId));
+
+    const reconnected = new Promise<void>((resolve) =>
+      client.once("reconnected", resolve),
+    );
+    server.disconnect("alice");
+    server.closeRemoteProducer(video.producerId);
+    await reconnected;
+
+    expect(closed).toEqual([
+      { participantId: "bob", producerId: video.producerId, kind: "video" },
+    ]);
+    expect(videoConsumer.closed).toBe(true);
+    expect(audioConsumer.closed).toBe(false);
+    expect(announced).toEqual([]);
+    client.disconnect();
+  });
+
+  it("replaces room state that went stale meanwhile", async () => {
+    const host = createClient({}, "host");
+    await host.connect();
+    server.addRemote("bob", ["audio"]);
+    server.signalFrom("bob", { kind: "raiseHand" });
+    server.recordingFrom("bob", "recording");
+    const client = createClient({ reconnect: { initialDelayMs: 1 } });
+    await client.connect();
+    const locked: (boolean | undefined)[] = [];
+    const queues: string[][] = [];
+    const recording: string[] = [];
+    client.on("joined", (joined) => locked.push(joined.locked));
+    client.on("raisedHands", (hands) =>
+      queues.push(hands.map((hand) => hand.participantId)),
+    );
+    client.on("recordingStateChanged", ({ participantId, state }) =>
+      recording.push(`${participantId}:${state}`),
+    );
+
+    const reconnected = new Promise<void>((resolve) =>
+      client.once("reconnected", resolve),
+    );
+    server.disconnect("alice");
+    server.signalFrom("bob", { kind: "lowerHand" });
+    server.recordingFrom("bob", "stopped");
+    await host.setRoomLocked(true);
+    await reconnected;
+
+    expect(locked).toEqual([true]);
+    expect(queues).toEqual([[]]);
+    expect(recording).toEqual(["bob:stopped"]);
+    client.disconnect();
+    host.disconnect();
+  });
+});
+
+describe("device changes", () => {
+  it("hands a fallback device to the processor in front of a producer", async () => {
+    let onDeviceChange = () => {};
+    const fallback = fakeTrack("video");
+    vi.stubGlobal("navigator", {
+      mediaDevices: {
+        addEventListener: (_: string, listener: () => void) =>
+          (onDeviceChange = listener),
+        removeEventListener: () => {},
+        // the camera behind the processor is gone
+        enumerateDevices: async () => [],
+        getUserMedia: async () => ({ getTracks: () => [fallback] }),
+      },
+    });
+    const client = createClient();
+    await client.connect();
+    const processed = fakeTrack("video");
+    await client.produceTrack(processed);
+    const camera = fakeTrack("video");
+    camera.getSettings = () => ({ deviceId: "camera-1" });
+    const processor = { source: camera, setSource: vi.fn() };
+    client.setTrackProcessor("video", processor);
+    const replaced = vi.fn();
+    client.on("trackReplaced", replaced);
+
+    onDeviceChange();
+
+    await vi.waitFor(() =>
+      expect(processor.setSource).toHaveBeenCalledWith(fallback),
+    );
+    const [producer] = FakeDevice.latest.transports.find(
+      (t) => t.direction === "send",
+    )!.producers;
+    expect(producer.track).toBe(processed);
+    expect(replaced).not.toHaveBeenCalled();
+    client.disconnect();
+  });
+});
+
+describe("transport options", () => {
+  it("passes ICE servers and the transport policy to every transport", async () => {
+    const [audio] = server.addRemote("bob", ["audio"]);
+    const iceServers = [
+      { urls: "turn:turn.example.com:443", username: "u", credential: "p" },
+    ];
+    const client = createClient({ iceServers, iceTransportPolicy: "relay" });
+    await client.connect();
+    await client.consumeTrack("bob", audio.producerId);
+
+    const transports = FakeDevice.latest.transports;
+    expect(transports.map((t) => t.direction)).toEqual(["send", "recv"]);
+    for (const transport of transports) {
+      expect(transport.options.iceServers).toEqual(iceServers);
+      expect(transport.options.iceTransportPolicy).toBe("relay");
+    }
+    client.disconnect();
+  });
+});
+
+describe("produceTrack", () => {
+  async function produceCamera(options = {}) {
+    const client = createClient(options);
+    await client.connect();
+    await client.produceTrack(fakeTrack("video"));
+    const [producer] = FakeDevice.latest.transports[0].producers;
+    client.disconnect();
+    return producer;
+  }
+
+  it("publishes the camera as three simulcast layers by default", async () => {
+    const producer = await produceCamera();
+
+    expect(producer.codec?.mimeType).toBe("video/VP8");
+    expect(producer.encodings?.map((e) => e.rid)).toEqual(["r0", "r1", "r2"]);
+    expect(producer.encodings?.map((e) => e.scaleResolutionDownBy)).toEqual([
+      4, 2, 1,
+    ]);
+  });
+
+  it("uses a single SVC encoding for VP9", async () => {
+    const producer = await produceCamera({ videoCodec: "vp9" });
+
+    expect(producer.codec?.mimeType).toBe("video/VP9");
+    expect(producer.encodings).toEqual([
+      expect.objectContaining({ scalabilityMode: "L3T3_KEY" }),
+    ]);
+  });
+
+  it("falls back to simulcast when the router lacks the codec", async () => {
+    const producer = await produceCamera({ videoCodec: "av1" });
+
+    expect(producer.codec).toBeUndefined();
+    expect(producer.encodings).toHaveLength(3);
+  });
+
+  it("sends screens and microphones as a single default encoding", async () => {
+    const client = createClient();
+    await client.connect();
+    await client.produceTrack(fakeTrack("video"), "screen");
+    await client.produceTrack(fakeTrack("audio"));
+
+    const [screen, mic] = FakeDevice.latest.transports[0].producers;
+    expect(screen.encodings).toBeUndefined();
+    expect(mic.encodings).toBeUndefined();
+    client.disconnect();
+  });
+});
+
+describe("pauseProducer / resumeProducer", () => {
+  it("tells the server and everyone else", async () => {
+    const client = createClient();
+    await client.connect();
+    const bob = createClient({}, "bob");
+    await bob.connect();
+    const seen: string[] = [];
+    bob.on("producerPaused", ({ kind }) => seen.push(`paused ${kind}`));
+    bob.on("producerResumed", ({ kind }) => seen.push(`resumed ${kind}`));
+    await client.produceTrack(fakeTrack("audio"));
+    const [producer] = FakeDevice.instances[0].transports[0].producers;
+
+    await client.pauseProducer("audio");
+    expect(producer.paused).toBe(true);
+    await client.resumeProducer("audio");
+    expect(producer.paused).toBe(false);
+
+    expect(server.requests("pauseProducer")).toMatchObject([
+      { producerId: producer.id },
+    ]);
+    expect(server.requests("resumeProducer")).toMatchObject([
+      { producerId: producer.id },
+    ]);
+    await vi.waitFor(() =>
+      expect(seen).toEqual(["paused audio", "resumed audio"]),
+    );
+    bob.disconnect();
+    client.disconnect();
+  });
+
+  it("signals a producer made from a disabled track", async () => {
+    const client = createClient();
+    await client.connect();
+    const track = fakeTrack("video");
+    track.enabled = false;
+    await client.produceTrack(track);
+    expect(client.isProducerPaused("video")).toBe(true);
+
+    await client.pauseProducer("video");
+
+    expect(server.requests("pauseProducer")).toHaveLength(1);
+    client.disconnect();
+  });
+
+  it("keeps the local state when the server refuses", async () => {
+    const client = createClient();
+    await client.connect();
+    await client.produceTrack(fakeTrack("audio"));
+    server.failNext("pauseProducer", "Producer not found");
+
+    await expect(client.pauseProducer("audio")).rejects.toThrow(
+      "Producer not found",
+    );
+    expect(client.isProducerPaused("audio")).toBe(false);
+    client.disconnect();
+  });
+});
+
+describe("consumeTrack", () => {
+  it("shares one recv transport between parallel consumes", async () => {
+    const bob = server.addRemote("bob", ["audio", "video"]);
+    const client = createClient();
+    await client.connect();
+
+    const tracks = await Promise.all(
+      bob.map((p) => client.consumeTrack("bob", p.producerId)),
+    );
+
+    expect(tracks.map((t) => t?.kind)).toEqual(["audio", "video"]);
+    expect(server.requests("createConsumerTransport")).toHaveLength(1);
+    expect(server.requests("connectConsumerTransport")).toHaveLength(1);
+    const [transport] = recvTransports();
+    expect(server.requests("consume").map((m) => m.transportId)).toEqual([
+      transport.id,
+      transport.id,
+    ]);
+    // every consumer is resumed once it exists locally
+    expect(
+      server
+        .requests("resumeConsumer")
+        .map((m) => m.consumerId)
+        .sort(),
+    ).toEqual(transport.consumers.map((c) => c.id).sort());
+    client.disconnect();
+  });
+
+  it("returns the existing track for a producer already consumed", async () => {
+    const [audio] = server.addRemote("bob", ["audio"]);
+    const client = createClient();
+    await client.connect();
+
+    const first = await client.consumeTrack("bob", audio.producerId);
+    const second = await client.consumeTrack("bob", audio.producerId);
+
+    expect(second).toBe(first);
+    expect(server.requests("consume")).toHaveLength(1);
+    client.disconnect();
+  });
+
+  it("opens another transport once maxConsumersPerTransport is reached", async () => {
+    const bob = server.addRemote("bob", ["audio", "video"]);
+    const client = createClient({ maxConsumersPerTransport: 1 });
+    await client.connect();
+
+    await Promise.all(bob.map((p) => client.consumeTrack("bob", p.producerId)));
+
+    expect(recvTransports()).toHaveLength(2);
+    expect(recvTransports().map((t) => t.consumers.length)).toEqual([1, 1]);
+    client.disconnect();
+  });
+
+  it("gives the slot back when the server refuses", async () => {
+    const [audio] = server.addRemote("bob", ["audio"]);
+    const client = createClient({ maxConsumersPerTransport: 1 });
+    await client.connect();
+
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    server.failNext("consume", "Cannot consume");
+    expect(await client.consumeTrack("bob", audio.producerId)).toBeNull();
+    expect(await client.consumeTrack("bob", audio.producerId)).not.toBeNull();
+
+    expect(recvTransports()).toHaveLength(1);
+    client.disconnect();
+  });
+
+  it("leaves a consumer the server paused alone when its producer resumes", async () => {
+    const [video] = server.addRemote("bob", ["video"]);
+    const client = createClient();
+    await client.connect();
+    await client.consumeTrack("bob", video.producerId);
+    const [consumer] = recvTransports()[0].consumers;
+    const ids = { consumerId: consumer.id, producerId: video.producerId };
+
+    server.push("alice", { type: "consumerPaused", ...ids });
+    server.push("alice", { type: "producerResumed", ...video });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(consumer.paused).toBe(true);
+
+    server.push("alice", { type: "consumerResumed", ...ids });
+    await vi.waitFor(() => expect(consumer.paused).toBe(false));
+    client.disconnect();
+  });
+});
+
+describe("setVideoVisible", () => {
+  it("pauses hidden video until it is visible again, leaving audio alone", async () => {
+    const [audio, video] = server.addRemote("bob", ["audio", "video"]);
+    const client = createClient();
+    await client.connect();
+    await client.consumeTrack("bob", audio.producerId);
+    await client.consumeTrack("bob", video.producerId);
+    const [audioConsumer, videoConsumer] = recvTransports()[0].consumers;
+
+    await client.setVideoVisible(audio.producerId, false);
+    await client.setVideoVisible(video.producerId, false);
+    await client.setVideoVisible(video.producerId, false);
+    expect(server.requests("pauseConsumer")).toMatchObject([
+      { consumerId: videoConsumer.id },
+    ]);
+    expect(audioConsumer.paused).toBe(false);
+    expect(videoConsumer.paused).toBe(true);
+
+    // bob turning his camera back on doesn't bring the tile back
+    server.push("alice", { type: "producerResumed", ...video });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(videoConsumer.paused).toBe(true);
+
+    await client.setVideoVisible(video.producerId, true);
+    expect(videoConsumer.paused).toBe(false);
+    client.disconnect();
+  });
+
+  it("consumes video off screen paused until its tile shows", async () => {
+    const [audio, video] = server.addRemote("bob", ["audio", "video"]);
+    const client = createClient();
+    await client.connect();
+    client.setVideoOnScreen(["carol"]);
+
+    await client.consumeTrack("bob", audio.producerId);
+    await client.consumeTrack("bob", video.producerId);
+    const [audioConsumer, videoConsumer] = recvTransports()[0].consumers;
+    expect(server.requests("resumeConsumer")).toMatchObject([
+      { consumerId: audioConsumer.id },
+    ]);
+    expect(videoConsumer.paused).toBe(true);
+
+    await client.setVideoVisible(video.producerId, true);
+    expect(server.requests("resumeConsumer")).toMatchObject([
+      { consumerId: audioConsumer.id },
+      { consumerId: videoConsumer.id },
+    ]);
+    expect(videoConsumer.paused).toBe(false);
+    client.disconnect();
+  });
+
+  it("never holds back a screen share", async () => {
+    const [screen] = server.addRemote("bob", ["video"]);
+    const client = createClient();
+    await client.connect();
+    client.setVideoOnScreen([]);
+
+    await client.consumeTrack("bob", screen.producerId, "screen");
+
+    expect(server.requests("resumeConsumer")).toHaveLength(1);
+    expect(recvTransports()[0].consumers[0].paused).toBe(false);
+    client.disconnect();
+  });
+});
+
+describe("participantLeft", () => {
+  it("closes only that participant's consumers and keeps the transport", async () => {
+    const bob = server.addRemote("bob", ["audio", "video"]);
+    const [carol] = server.addRemote("carol", ["audio"]);
+    const client = createClient();
+    await client.connect();
+    await Promise.all(
+      [...bob, carol].map((p) =>
+        client.consumeTrack(p.participantId, p.producerId),
+      ),
+    );
+    const left: string[] = [];
+    client.on("participantLeft", (id: string) => left.push(id));
+
+    server.removeRemote("bob");
+    await vi.waitFor(() => expect(left).toEqual(["bob"]));
+
+    const [transport] = recvTransports();
+    const closedFor = (participantId: string) =>
+      transport.consumers
+        .filter((c) => c.appData.participantId === participantId)
+        .map((c) => c.closed);
+    expect(closedFor("bob")).toEqual([true, true]);
+    expect(closedFor("carol")).toEqual([false]);
+    expect(transport.closed).toBe(false);
+
+    // someone joining later is consumed over the same transport
+    const [dave] = server.addRemote("dave", ["video"]);
+    expect(await client.consumeTrack("dave", dave.producerId)).not.toBeNull();
+    expect(server.requests("createConsumerTransport")).toHaveLength(1);
+    client.disconnect();
+  });
+});
+
+describe("disconnect", () => {
+  it("rejects pending requests and closes everything without reconnecting", async () => {
+    const [audio] = server.addRemote("bob", ["audio"]);
+    const client = createClient();
+    await client.connect();
+    await client.consumeTrack("bob", audio.producerId);
+    const states: string[] = [];
+    client.on("connectionStateChanged", (state: string) => states.push(state));
+
+    server.ignore("setRecordingState");
+    const pending = client.setRecordingState("recording");
+    client.disconnect();
+
+    await expect(pending).rejects.toThrow("Client disconnected");
+    expect(client.connectionState).toBe("closed");
+    expect(states).toEqual(["closed"]);
+    expect(FakeDevice.latest.transports.every((t) => t.closed)).toBe(true);
+    expect(recvTransports()[0].consumers[0].closed).toBe(true);
+
+    const [socket] = server.sockets;
+    expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+    // let the close event fire; a closed client must not dial back in
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(server.sockets).toHaveLength(1);
+  });
+});
+
+describe("events", () => {
+  it("removes listeners through off, once and the unsubscribe function", async () => {
+    const client = createClient();
+    const seen: string[] = [];
+    const unsubscribe = client.on("participantJoined", (id) =>
+      seen.push(`on:${id}`),
+    );
+    client.once("participantJoined", (id) => seen.push(`once:${id}`));
+    const listener = (id: string) => seen.push(`off:${id}`);
+    client.on("participantJoined", listener);
+    await client.connect();
+
+    server.addRemote("bob", []);
+    await vi.waitFor(() => expect(seen).toHaveLength(3));
+    unsubscribe();
+    client.off("participantJoined", listener);
+    server.addRemote("carol", []);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(seen).toEqual(["on:bob", "once:bob", "off:bob"]);
+    client.disconnect();
+  });
+
+  it("removes a once() listener through off", async () => {
+    const client = createClient();
+    const seen: string[] = [];
+    const listener = (id: string) => seen.push(id);
+    client.once("participantJoined", listener);
+    client.off("participantJoined", listener);
+    await client.connect();
+
+    server.addRemote("bob", []);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(seen).toEqual([]);
+    client.disconnect();
+  });
+
+  it("drops every listener on disconnect", async () => {
+    const client = createClient();
+    const states: string[] = [];
+    client.on("connectionStateChanged", (state) => states.push(state));
+    await client.connect();
+
+    client.disconnect();
+    await expect(client.connect()).rejects.toThrow();
+
+    expect(states).toEqual(["connecting", "connected", "closed"]);
+  });
+});
+
+describe("moderation", () => {
+  it("takes the role from the join response and lets hosts moderate", async () => {
+    server.addRemote("bob", ["audio", "video"]);
+    const host = createClient();
+    await host.connect();
+    expect(host.role).toBe("host");
+
+    await host.requestMute("bob", "audio");
+    await host.closeParticipantProducers("bob");
+    await host.setRoomLocked(true);
+
+    expect(server.requests("requestMute")).toMatchObject([
+      { targetParticipantId: "bob", kind: "audio" },
+    ]);
+    expect(server.requests("closeParticipantProducers")).toMatchObject([
+      { targetParticipantId: "bob" },
+    ]);
+    const latecomer = createClient({}, "eve");
+    await expect(latecomer.connect()).rejects.toThrow("Room is locked");
+    latecomer.disconnect();
+    host.disconnect();
+  });
+
+  it("surfaces the server refusing a guest's command", async () => {
+    const host = createClient({}, "host");
+    await host.connect();
+    const guest = createClient();
+    await guest.connect();
+
+    expect(guest.role).toBe("guest");
+    await expect(guest.kick("host")).rejects.toThrow("Only hosts can do that");
+    guest.disconnect();
+    host.disconnect();
+  });
+
+  it("pauses on a mute request and produces again after a forced close", async () => {
+    const client = createClient();
+    await client.connect();
+    await client.produceTrack(fakeTrack("audio"));
+    const muted: { kind: string; closed: boolean }[] = [];
+    client.on("forceMuted", (event: { kind: string; closed: boolean }) =>
+      muted.push(event),
+    );
+
+    server.push("alice", {
+      type: "forceMuted",
+      kind: "audio",
+      closed: false,
+      byParticipantId: "host",
+    });
+    await vi.waitFor(() => expect(muted).toHaveLength(1));
+    const [producer] = FakeDevice.latest.transports[0].producers;
+    expect(producer.paused).toBe(true);
+
+    server.push("alice", {
+      type: "forceMuted",
+      kind: "audio",
+      closed: true,
+      byParticipantId: "host",
+    });
+    await vi.waitFor(() => expect(muted).toHaveLength(2));
+    expect(producer.closed).toBe(true);
+    expect(client.isProducerPaused("audio")).toBe(true);
+
+    await client.resumeProducer("audio");
+    expect(server.requests("produce")).toHaveLength(2);
+    expect(client.isProducerPaused("audio")).toBe(false);
+    client.disconnect();
+  });
+
+  it("holds a new device's track until unmute after a forced close", async () => {
+    const client = createClient();
+    await client.connect();
+    await client.produceTrack(fakeTrack("audio"));
+    const muted = new Promise((resolve) => client.on("forceMuted", resolve));
+    server.push("alice", {
+      type: "forceMuted",
+      kind: "audio",
+      closed: true,
+      byParticipantId: "host",
+    });
+    await muted;
+
+    const headset = fakeTrack("audio");
+    await client.replaceTrack("audio", headset);
+    expect(server.requests("produce")).toHaveLength(1);
+    expect(client.isProducerPaused("audio")).toBe(true);
+
+    await client.resumeProducer("audio");
+    expect(server.requests("produce")).toHaveLength(2);
+    const producers = FakeDevice.latest.transports[0].producers;
+    expect(producers.at(-1)?.track).toBe(headset);
+    expect(client.isProducerPaused("audio")).toBe(false);
+    client.disconnect();
+  });
+
+  it("disconnects for good when kicked", async () => {
+    const host = createClient({}, "host");
+    await host.connect();
+    const client = createClient({ reconnect: { initialDelayMs: 1 } });
+    await client.connect();
+    const kicked = new Promise((resolve) => client.on("kicked", resolve));
+
+    await host.kick("alice", "Off topic");
+
+    await expect(kicked).resolves.toEqual({
+      byParticipantId: "host",
+      reason: "Off topic",
+    });
+    expect(client.connectionState).toBe("closed");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(server.sockets).toHaveLength(2);
+    host.disconnect();
+  });
+});
+
+describe("waiting room", () => {
+  it("resolves connect only once a host admits us", async () => {
+    server.enableWaitingRoom("host");
+    const client = createClient();
+    const waiting = new Promise<void>((resolve) =>
+      client.once("waiting", resolve),
+    );
+    let connected = false;
+    const connecting = client.connect().then(() => (connected = true));
+
+    await waiting;
+    expect(client.connectionState).toBe("waiting");
+    expect(server.requests("getRtpCapabilities")).toHaveLength(0);
+    expect(connected).toBe(false);
+
+    server.admit(["alice"]);
+    await connecting;
+
+    expect(server.requests("join")).toHaveLength(2);
+    expect(client.connectionState).toBe("connected");
+    client.disconnect();
+  });
+
+  it("rejects connect when a host denies us", async () => {
+    server.enableWaitingRoom("host");
+    const client = createClient({ reconnect: { initialDelayMs: 1 } });
+    const denied = new Promise((resolve) => client.on("denied", resolve));
+    client.on("waiting", () => server.deny(["alice"], "Invite only"));
+
+    await expect(client.connect()).rejects.toThrow("Invite only");
+    await expect(denied).resolves.toEqual({ reason: "Invite only" });
+    expect(client.connectionState).toBe("closed");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(server.sockets).toHaveLength(1);
+  });
+
+  it("stops waiting when cancelled", async () => {
+    server.enableWaitingRoom("host");
+    const client = createClient();
+    client.on("waiting", () => client.disconnect());
+
+    await expect(client.connect()).rejects.toThrow("Client disconnected");
+    expect(client.connectionState).toBe("closed");
+  });
+
+  it("tells hosts who knocks and lets them admit or deny", async () => {
+    server.enableWaitingRoom();
+    const host = createClient({}, "host");
+    await host.connect();
+    const knocks: { participantId: string }[][] = [];
+    host.on("knock", (waiting: { participantId: string }[]) =>
+      knocks.push(waiting),
+    );
+
+    server.knock("bob");
+    server.knock("carol");
+    server.knock("dave");
+    await vi.waitFor(() => expect(knocks).toHaveLength(3));
+    expect(knocks[2].map((p) => p.participantId)).toEqual([
+      "bob",
+      "carol",
+      "dave",
+    ]);
+
+    await host.admit("bob");
+    await host.deny([], "Meeting is full");
+
+    expect(server.requests("admitParticipants")).toMatchObject([
+      { targetParticipantIds: ["bob"] },
+    ]);
+    expect(server.requests("denyParticipants")).toMatchObject([
+      { reason: "Meeting is full" },
+    ]);
+    await vi.waitFor(() => expect(knocks.at(-1)).toEqual([]));
+    host.disconnect();
+  });
+});
+
+describe("chat", () => {
+  async function connectPair(): Promise<[MediasoupClient, MediasoupClient]> {
+    const alice = createClient();
+    await alice.connect();
+    const bob = createClient({}, "bob");
+    await bob.connect();
+    return [alice, bob];
+  }
+
+  it("relays chat over signaling without data channels", async () => {
+    const [alice, bob] = await connectPair();
+    const received: string[] = [];
+    bob.on("chatMessage", (message) => received.push(message.text));
+
+    const sent = await alice.sendChat("hello");
+
+    await vi.waitFor(() => expect(received).toEqual(["hello"]));
+    expect(server.requests("chatMessage")).toMatchObject([{ id: sent.id }]);
+    alice.disconnect();
+    bob.disconnect();
+  });
+
+  it("shows a message that came over both paths once", async () => {
+    server.enableDataChannels();
+    const [alice, bob] = await connectPair();
+    const recv = (device: FakeDevice) =>
+      device.transports.find((t) => t.direction === "recv");
+    const [aliceDevice, bobDevice] = FakeDevice.instances;
+    await vi.waitFor(() => {
+      expect(recv(aliceDevice)?.dataConsumers).toHaveLength(1);
+      expect(recv(bobDevice)?.dataConsumers).toHaveLength(1);
+    });
+    const received: string[] = [];
+    bob.on("chatMessage", (message) => received.push(message.text));
+
+    await alice.sendChat("hello");
+    await vi.waitFor(() => expect(received).toEqual(["hello"]));
+    // the data channel's copy, arriving late
+    const [channel] = aliceDevice.transports[0].dataProducers;
+    expect(channel.sent).toHaveLength(1);
+    recv(bobDevice)!.dataConsumers[0].receive(channel.sent[0]);
+
+    expect(received).toEqual(["hello"]);
+    alice.disconnect();
+    bob.disconnect();
+  });
+
+  it("reaches someone whose data channel failed", async () => {
+    server.enableDataChannels();
+    server.failNext("consumeData", "No SCTP here");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const [alice, bob] = await connectPair();
+    const received: string[] = [];
+    bob.on("chatMessage", (message) => received.push(message.text));
+
+    await alice.sendChat("hello");
+
+    const [aliceDevice, bobDevice] = FakeDevice.instances;
+    expect(aliceDevice.transports[0].dataProducers).toHaveLength(1);
+    expect(bobDevice.transports.flatMap((t) => t.dataConsumers)).toHaveLength(
+      0,
+    );
+    await vi.waitFor(() => expect(received).toEqual(["hello"]));
+    alice.disconnect();
+    bob.disconnect();
+  });
+});
+
+describe("room signals", () => {
+  it("keeps raised hands in raise order until a host clears them", async () => {
+    const host = createClient({}, "host");
+    await host.connect();
+    const guest = createClient();
+    await guest.connect();
+    const queues: string[][] = [];
+    host.on("raisedHands", (hands) =>
+      queues.push(hands.map((hand) => hand.participantId)),
+    );
+
+    server.addRemote("bob", ["audio"]);
+    server.signalFrom("bob", { kind: "raiseHand" });
+    await guest.raiseHand();
+    await vi.waitFor(() => expect(queues.at(-1)).toEqual(["bob", "alice"]));
+
+    await expect(guest.lowerHand("bob")).rejects.toThrow(
+      "Only hosts can do that",
+    );
+    await host.lowerHand("bob");
+    await vi.waitFor(() => expect(queues.at(-1)).toEqual(["alice"]));
+    await host.clearRaisedHands();
+    await vi.waitFor(() => expect(queues.at(-1)).toEqual([]));
+    guest.disconnect();
+    host.disconnect();
+  });
+
+  it("hands latecomers the queue and relays reactions to everyone else", async () => {
+    server.addRemote("bob", ["audio"]);
+    server.signalFrom("bob", { kind: "raiseHand" });
+    const client = createClient();
+    const queues: string[][] = [];
+    const reactions: { participantId: string; emoji: string }[] = [];
+    client.on("raisedHands", (hands) =>
+      queues.push(hands.map((hand) => hand.participantId)),
+    );
+    client.on("reaction", (reaction) => reactions.push(reaction));
+    await client.connect();
+    expect(queues).toEqual([["bob"]]);
+
+    await client.sendReaction("🎉");
+    server.signalFrom("bob", { kind: "reaction", emoji: "👏" });
+
+    await vi.waitFor(() => expect(reactions).toHaveLength(1));
+    expect(reactions).toEqual([{ participantId: "bob", emoji: "👏" }]);
+    client.disconnect();
+  });
+
+  it("drops reactions that aren't on offer", async () => {
+    server.addRemote("bob", ["audio"]);
+    const client = createClient();
+    const reactions: { participantId: string; emoji: string }[] = [];
+    client.on("reaction", (reaction) => reactions.push(reaction));
+    await client.connect();
+
+    server.signalFrom("bob", { kind: "reaction", emoji: "x".repeat(5000) });
+    server.signalFrom("bob", { kind: "reaction", emoji: "🎉" });
+
+    await vi.waitFor(() => expect(reactions).toHaveLength(1));
+    expect(reactions).toEqual([{ participantId: "bob", emoji: "🎉" }]);
+    client.disconnect();
+  });
+});
@@ -3,98 +3,459 @@ import type {
   Transport,
   Producer,
   Consumer,
+  DataConsumer,
+  DataProducer,
+  MediaKind,
   RtpCapabilities,
+  RtpCodecCapability,
+  RtpEncodingParameters,
+  TransportOptions,
 } from "mediasoup-client/types";
+import type {
+  ChatMessage,
+  ClientMessage,
+  ConsumerClosedMessage,
+  ConsumerLayers,
+  ConsumerLayersChangedMessage,
+  ConsumerPausedMessage,
+  ConsumerResumedMessage,
+  DataChannelLabel,
+  DataProducerInfo,
+  DeniedMessage,
+  ForceMutedMessage,
+  JoinedMessage,
+  KickedMessage,
+  ParticipantIdentity,
+  ParticipantRole,
+  ProducerAppData,
+  ProducerClosedMessage,
+  ProducerInfo,
+  ProducerPausedMessage,
+  ProducerResumedMessage,
+  ProducerSource,
+  RaisedHand,
+  RecordingState,
+  RequestMessage,
+  RequestType,
+  ResponseMessage,
+  RoomLockChangedMessage,
+  RoomSignal,
+  RoomSignalPush,
+  ServerMessage,
+  WaitingRoomChangedMessage,
+} from "./signaling";
+import { REACTION_EMOJIS } from "./signaling";
+import { DEFAULT_CONFIG, type MediaConstraintDefaults } from "./config";
+import {
+  type Quality,
+  type StatsSnapshot,
+  type StreamStats,
+  type TransportStats,
+  StatsSampler,
+  gradeQuality,
+} from "./connectionStats";
+
+// Which remote participant a consumer belongs to, and which recv transport
+// shard carries it.
+type ConsumerAppData = { participantId: string; transportId: string };
+
+interface RecvShard {
+  transport: Transport;
+  // consumers (media and data) currently assigned to this transport
+  load: number;
+}
+
+interface PendingRequest {
+  resolve: (message: ServerMessage) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export type ConnectionState =
+  | "new"
+  | "connecting"
+  // held in the waiting room until a host lets us in
+  | "waiting"
+  | "connected"
+  | "reconnecting"
+  | "failed"
+  | "closed";
+
+/* ─── Events ─────────────────────────────────────────────────────────────── */
+
+// A consumer we hold, identified by the producer it consumes.
+export interface ConsumerInfo {
+  participantId: string;
+  producerId: string;
+  kind: MediaKind;
+}
+
+export interface FirstFrameTiming extends ConsumerInfo {
+  // from the consume call
+  consumeMs: number;
+  // from connect(), the number that matters to a late joiner
+  sinceJoinMs: number;
+}
+
+// Listener arguments per event.
+export interface MediasoupClientEvents {
+  connectionStateChanged: [state: ConnectionState];
+  joined: [joined: JoinedMessage];
+  // held in the waiting room; connect() resolves once admitted
+  waiting: [];
+  denied: [event: { reason?: string }];
+  reconnecting: [event: { attempt: number; delay: number }];
+  reconnected: [];
+  // reconnecting gave up
+  failed: [];
+  // error pushes from the server that answer no request
+  error: [error: Error];
+  // identity is missing from servers that don't authenticate
+  participantJoined: [participantId: string, identity?: ParticipantIdentity];
+  participantLeft: [participantId: string];
+  newProducer: [producer: ProducerInfo];
+  producerPaused: [producer: ProducerInfo];
+  producerResumed: [producer: ProducerInfo];
+  producerClosed: [producer: ProducerInfo];
+  consumerClosed: [consumer: ConsumerInfo];
+  consumerPaused: [consumer: ConsumerInfo];
+  consumerResumed: [consumer: ConsumerInfo];
+  consumerLayersChanged: [
+    consumer: ConsumerInfo & { layers: ConsumerLayers | null },
+  ];
+  firstFrame: [timing: FirstFrameTiming];
+  // an unplugged device was swapped for the default one; not emitted when
+  // a TrackProcessor took the new device and the published track stayed
+  trackReplaced: [
+    event: {
+      kind: MediaKind;
+      track: MediaStreamTrack;
+      previous: MediaStreamTrack;
+    },
+  ];
+  stats: [snapshot: StatsSnapshot];
+  qualityChanged: [event: { stream: StreamStats; previous: Quality }];
+  chatMessage: [message: ChatMessage];
+  recordingStateChanged: [
+    event: { participantId: string; state: RecordingState },
+  ];
+  forceMuted: [event: Omit<ForceMutedMessage, "type">];
+  kicked: [event: Omit<KickedMessage, "type">];
+  roomLockChanged: [event: Omit<RoomLockChangedMessage, "type">];
+  waitingRoomChanged: [event: Omit<WaitingRoomChangedMessage, "type">];
+  // hosts only: everyone waiting, whenever that changes
+  knock: [waiting: ParticipantIdentity[]];
+  // the whole queue, in raise order, whenever it changes
+  raisedHands: [hands: RaisedHand[]];
+  // someone else's; ours are only shown locally
+  reaction: [event: { participantId: string; emoji: string }];
+}
+
+export type MediasoupClientEvent = keyof MediasoupClientEvents;
+
+// Sits between a device and a producer (virtual background, noise
+// suppression): the published track is its output, so the device behind
+// it is `source`, and a replacement device goes in through setSource.
+export interface TrackProcessor {
+  readonly source: MediaStreamTrack;
+  setSource(track: MediaStreamTrack): void | Promise<void>;
+}
+
+export type MediasoupClientListener<E extends MediasoupClientEvent> = (
+  ...args: MediasoupClientEvents[E]
+) => void;
+
+export interface ReconnectOptions {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+// "vp8"/"h264" publish the camera as three simulcast encodings; "vp9" and
+// "av1" use a single SVC encoding instead. Falls back to simulcast when the
+// browser can't send the requested codec.
+export type VideoCodecPreference = "vp8" | "h264" | "vp9" | "av1";
+
+export interface MediasoupClientOptions {
+  reconnect?: Partial<ReconnectOptions>;
+  videoCodec?: VideoCodecPreference;
+  // how often to poll WebRTC stats; 0 turns stats off
+  statsIntervalMs?: number;
+  // open another recv transport once this many consumers share one;
+  // unlimited by default, i.e. a single transport for everything
+  maxConsumersPerTransport?: number;
+  // extra TURN/STUN servers and relay-only mode, for every transport
+  iceServers?: RTCIceServer[];
+  iceTransportPolicy?: RTCIceTransportPolicy;
+  // used when reopening a device that was unplugged
+  media?: MediaConstraintDefaults;
+  // signed room token sent with join
+  token?: string;
+  // swaps the token for a fresh one before every rejoin
+  refreshToken?: (current: string) => Promise<string>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+const DEFAULT_STATS_INTERVAL_MS = 2000;
+
+const MAX_SEEN_CHAT = 200;
+
+const DEFAULT_RECONNECT: ReconnectOptions = {
+  maxAttempts: 8,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// Low → high: quarter, half and full resolution.
+const SIMULCAST_ENCODINGS: RtpEncodingParameters[] = [
+  { rid: "r0", scaleResolutionDownBy: 4, maxBitrate: 150000 },
+  { rid: "r1", scaleResolutionDownBy: 2, maxBitrate: 500000 },
+  { rid: "r2", scaleResolutionDownBy: 1, maxBitrate: 1200000 },
+].map((encoding) => ({ ...encoding, scalabilityMode: "L1T3" }));
 
-type EventCallback = (...args: any[]) => void;
+const SVC_ENCODINGS: RtpEncodingParameters[] = [
+  { scalabilityMode: "L3T3_KEY", maxBitrate: 1200000 },
+];
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
 
 export class MediasoupClient {
   private ws: WebSocket;
+  private wsUrl: string;
   private device?: Device;
+  // router capabilities the device was loaded with, compared on resume
+  private routerRtpCapabilities?: RtpCapabilities;
+  private roomId: string;
   private participantId: string;
+  private reconnectOptions: ReconnectOptions;
+  private videoCodec: VideoCodecPreference;
+  private state: ConnectionState = "new";
   private producerTransport?: Transport;
-  private consumerTransports = new Map<string, Transport>();
-  private producers = new Map<string, Producer>();
-  private consumers = new Map<string, Consumer>();
-  private eventHandlers = new Map<string, EventCallback[]>();
-  private pendingConsumerTransportResolve?: (transport: Transport) => void;
+  // one recv transport for all consumers unless maxConsumersPerTransport
+  // makes us shard
+  private recvShards: RecvShard[] = [];
+  private maxConsumersPerTransport: number;
+  // in-flight shard creation, so parallel consumes share the new transport
+  private pendingRecvShard?: Promise<void>;
+  private producers = new Map<string, Producer<ProducerAppData>>();
+  // keyed by producer id: at most one consumer per remote producer
+  private consumers = new Map<string, Consumer<ConsumerAppData>>();
+  private processors = new Map<MediaKind, TrackProcessor>();
+  // everyone else in the room as far as the server has told us, so a
+  // rejoin can tell who left during an outage
+  private participantIds = new Set<string>();
+  // producer ids of video consumers paused because nobody can see them
+  private hiddenVideo = new Set<string>();
+  // participants with a tile on screen; undefined means everyone
+  private videoOnScreen?: Set<string>;
+  // producer ids of consumers the server paused on its own (consumerPaused)
+  private serverPaused = new Set<string>();
+  // others recording (or paused), so a rejoin can clear who stopped meanwhile
+  private recorders = new Set<string>();
+  // last preferred layers sent per producer id, to skip redundant requests
+  private preferredLayers = new Map<string, string>();
+  // each set holds MediasoupClientListener<E> for its event E
+  private listeners = new Map<MediasoupClientEvent, Set<unknown>>();
+  // the wrapper once() registered for each listener, so off() finds it
+  private onceWrappers = new Map<MediasoupClientEvent, Map<unknown, unknown>>();
+  // replies are matched to their request by requestId
+  private pendingRequests = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
   // store existing producers until device is ready
-  private pendingExistingProducers: Array<{
-    participantId: string;
-    producerId: string;
-    kind: string;
-  }> = [];
-  // queue to ensure consumes happen one at a time, preventing race conditions
-  private consumeQueue: Promise<MediaStreamTrack | null> =
-    Promise.resolve(null);
-
-  constructor(wsUrl: string, participantId: string) {
+  private pendingExistingProducers: ProducerInfo[] = [];
+  private pendingDataProducers: DataProducerInfo[] = [];
+  // our outgoing chat channel; undefined means chat goes over the WebSocket
+  private chatProducer?: DataProducer;
+  // keyed by the remote data producer id
+  private dataConsumers = new Map<string, DataConsumer<ConsumerAppData>>();
+  // ids of recent chat messages, to drop the second copy of each
+  private seenChat = new Set<string>();
+  private nextChatId = 1;
+  // whether the server enabled SCTP on our transports
+  private sctpEnabled = false;
+  private statsIntervalMs: number;
+  private statsTimer?: ReturnType<typeof setInterval>;
+  private statsSampler = new StatsSampler();
+  // last grade per stream id, to emit qualityChanged only on transitions
+  private streamQuality = new Map<string, Quality>();
+  private statsPolling = false;
+  // when connect() started, for time-to-first-frame
+  private joinStartedAt = 0;
+  private iceServers: RTCIceServer[];
+  private iceTransportPolicy: RTCIceTransportPolicy;
+  private media: MediaConstraintDefaults;
+  private token?: string;
+  private refreshToken?: (current: string) => Promise<string>;
+  // from the join response; undefined until joined
+  private localRole?: ParticipantRole;
+  // mic/camera tracks whose producer a host closed, to produce again on
+  // unmute
+  private forceClosed = new Map<
+    MediaKind,
+    { track: MediaStreamTrack; source: ProducerSource }
+  >();
+  // settled by the server's admitted/denied push while we wait to join
+  private admission?: { resolve: () => void; reject: (error: Error) => void };
+
+  constructor(
+    wsUrl: string,
+    roomId: string,
+    participantId: string,
+    options: MediasoupClientOptions = {},
+  ) {
+    this.wsUrl = wsUrl;
+    this.roomId = roomId;
     this.participantId = participantId;
+    this.reconnectOptions = { ...DEFAULT_RECONNECT, ...options.reconnect };
+    this.videoCodec = options.videoCodec ?? "vp8";
+    this.statsIntervalMs = options.statsIntervalMs ?? DEFAULT_STATS_INTERVAL_MS;
+    this.maxConsumersPerTransport = Math.max(
+      1,
+      options.maxConsumersPerTransport ?? Infinity,
+    );
+    this.iceServers = options.iceServers ?? [];
+    this.iceTransportPolicy = options.iceTransportPolicy ?? "all";
+    this.media = options.media ?? DEFAULT_CONFIG.media;
+    this.token = options.token;
+    this.refreshToken = options.refreshToken;
     this.ws = new WebSocket(wsUrl);
     this.setupWebSocket();
   }
 
+  public get connectionState(): ConnectionState {
+    return this.state;
+  }
+
+  public get role(): ParticipantRole | undefined {
+    return this.localRole;
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.emit("connectionStateChanged", state);
+  }
+
   private setupWebSocket(): void {
-    this.ws.onmessage = async (event) => {
-      const data = JSON.parse(event.data);
+    this.ws.onmessage = (event) => {
+      const data: ServerMessage = JSON.parse(event.data);
       console.log("Received message:", data);
 
+      if (data.requestId !== undefined) {
+        this.handleResponse(data.requestId, data);
+        return;
+      }
+
       switch (data.type) {
-        case "joined":
-          this.emit("joined", data);
-          // Don't emit newProducer yet — device not ready.
-          // Store them and flush after device loads.
-          if (data.existingProducers && data.existingProducers.length > 0) {
-            this.pendingExistingProducers = data.existingProducers;
-          }
+        case "participantJoined":
+          this.handleParticipantJoined(data.participantId, data.identity);
+          break;
+
+        case "newProducer": {
+          const producer: ProducerInfo = {
+            participantId: data.participantId,
+            producerId: data.producerId,
+            kind: data.kind,
+            paused: data.paused,
+            appData: data.appData,
+          };
+          // Can't consume before the device is loaded — hold it until then.
+          if (this.device?.loaded) this.emit("newProducer", producer);
+          else this.pendingExistingProducers.push(producer);
           break;
+        }
 
-        case "rtpCapabilities":
-          await this.handleRtpCapabilities(data.data);
+        case "producerPaused":
+        case "producerResumed":
+          this.handleRemoteProducerPause(data);
           break;
 
-        case "producerTransportCreated":
-          this.emit("producerTransportCreated", data.data);
+        case "producerClosed":
+          this.handleRemoteProducerClosed(data);
           break;
 
-        case "producerTransportConnected":
-          this.emit("producerTransportConnected");
+        case "consumerClosed":
+        case "consumerPaused":
+        case "consumerResumed":
+        case "consumerLayersChanged":
+          this.handleConsumerUpdate(data);
           break;
 
-        case "produced":
-          this.emit("produced", data.id);
+        case "newDataProducer": {
+          const dataProducer: DataProducerInfo = {
+            participantId: data.participantId,
+            dataProducerId: data.dataProducerId,
+            label: data.label,
+          };
+          if (this.device?.loaded) this.consumeDataProducer(dataProducer);
+          else this.pendingDataProducers.push(dataProducer);
           break;
+        }
 
-        case "consumerTransportCreated":
-          this.emit("consumerTransportCreated", data.data);
+        case "recordingStateChanged":
+          this.handleRecordingState(data.participantId, data.state);
           break;
 
-        case "consumerTransportConnected":
-          this.emit("consumerTransportConnected");
+        case "chatMessage":
+          this.receiveChat({
+            participantId: data.participantId,
+            text: data.text,
+            sentAt: data.sentAt,
+            id: data.id,
+          });
           break;
 
-        case "consumed":
-          this.emit("consumed", data.data);
+        case "roomSignal":
+          this.handleRoomSignal(data);
           break;
 
-        case "participantJoined":
-          this.emit("participantJoined", data.participantId);
+        case "raisedHands":
+          this.emit("raisedHands", data.raisedHands);
           break;
 
-        case "newProducer":
-          this.emit("newProducer", {
-            participantId: data.participantId,
-            producerId: data.producerId,
-            kind: data.kind,
+        case "forceMuted":
+          this.handleForceMuted(data);
+          break;
+
+        case "kicked":
+          this.handleKicked(data);
+          break;
+
+        case "roomLockChanged":
+          this.emit("roomLockChanged", {
+            locked: data.locked,
+            byParticipantId: data.byParticipantId,
           });
           break;
 
+        case "waitingRoomChanged":
+          this.emit("waitingRoomChanged", {
+            enabled: data.enabled,
+            byParticipantId: data.byParticipantId,
+          });
+          break;
+
+        case "knock":
+          this.emit("knock", data.waiting);
+          break;
+
+        case "admitted":
+          this.admission?.resolve();
+          break;
+
+        case "denied":
+          this.handleDenied(data);
+          break;
+
         case "participantLeft":
           this.handleParticipantLeft(data.participantId);
           break;
 
         case "error":
           console.error("Server error:", data.message);
+          this.emit("error", new Error(data.message));
           break;
       }
     };
@@ -105,52 +466,372 @@ export class MediasoupClient {
 
     this.ws.onclose = () => {
       console.log("WebSocket closed");
+      this.rejectPendingRequests(new Error("WebSocket closed"));
+      // Only an established session is worth resuming; failures while
+      // connecting surface through connect() and in-flight retries loop
+      // on their own.
+      if (this.state === "connected") {
+        this.reconnect();
+      }
     };
   }
 
-  private send(message: Record<string, any>): void {
+  private waitForOpen(): Promise<void> {
+    if (this.ws.readyState === WebSocket.OPEN) return Promise.resolve();
+
+    const ws = this.ws;
+    return new Promise<void>((resolve, reject) => {
+      ws.addEventListener("open", () => resolve(), { once: true });
+      ws.addEventListener(
+        "close",
+        () => reject(new Error("WebSocket closed before opening")),
+        { once: true },
+      );
+    });
+  }
+
+  private handleResponse(requestId: number, message: ServerMessage): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return;
+
+    this.pendingRequests.delete(requestId);
+    clearTimeout(pending.timer);
+
+    if (message.type === "error") {
+      pending.reject(new Error(message.message));
+    } else {
+      pending.resolve(message);
+    }
+  }
+
+  private rejectPendingRequests(error: Error): void {
+    for (const pending of this.pendingRequests.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
+    // nobody can admit us over a dead socket
+    this.admission?.reject(error);
+  }
+
+  private send(message: ClientMessage & { requestId: number }): void {
     if (this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
     }
   }
 
+  /**
+   * Sends a message tagged with a fresh requestId and resolves with the
+   * server reply carrying the same id. Rejects on an `error` reply, on
+   * timeout, or when the socket closes first.
+   */
+  public request<T extends RequestType>(
+    message: RequestMessage<T>,
+    timeoutMs = REQUEST_TIMEOUT_MS,
+  ): Promise<ResponseMessage<T>> {
+    return new Promise<ResponseMessage<T>>((resolve, reject) => {
+      if (this.ws.readyState !== WebSocket.OPEN) {
+        reject(new Error(`Cannot send ${message.type}: WebSocket not open`));
+        return;
+      }
+
+      const requestId = this.nextRequestId++;
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new Error(`Request ${message.type} timed out`));
+      }, timeoutMs);
+
+      this.pendingRequests.set(requestId, {
+        resolve: (reply) => resolve(reply as ResponseMessage<T>),
+        reject,
+        timer,
+      });
+      this.send({ ...message, requestId });
+    });
+  }
+
   public async connect(): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const waitForDevice = () => {
-        if (this.device && this.device.loaded) {
-          resolve();
-        } else {
-          setTimeout(waitForDevice, 50);
-        }
-      };
+    this.joinStartedAt = performance.now();
+    this.setState("connecting");
+    try {
+      await this.waitForOpen();
+      await this.joinRoom();
+      await this.openChatChannel();
+    } catch (error) {
+      // a denied or cancelled knock already closed us; that's no failure
+      if (this.state !== "closed") this.setState("failed");
+      throw error;
+    }
+    this.setState("connected");
+    if (this.statsIntervalMs > 0) {
+      this.statsTimer = setInterval(
+        () => this.pollStats(),
+        this.statsIntervalMs,
+      );
+    }
+    navigator.mediaDevices?.addEventListener(
+      "devicechange",
+      this.handleDeviceChange,
+    );
+  }
 
-      if (this.ws.readyState === WebSocket.OPEN) {
-        this.joinRoom();
-        waitForDevice();
-      } else {
-        this.ws.onopen = () => {
-          this.joinRoom();
-          waitForDevice();
-        };
-        this.ws.onerror = reject;
-      }
+  /**
+   * Sends join, sitting in the waiting room first if the server holds us
+   * there. Rejects if a host denies us or the socket closes meanwhile.
+   */
+  private async requestJoin(): Promise<JoinedMessage> {
+    for (;;) {
+      const reply = await this.request({
+        type: "join",
+        roomId: this.roomId,
+        participantId: this.participantId,
+        token: this.token,
+      });
+      if (reply.type === "joined") return reply;
+      await this.waitForAdmission();
+    }
+  }
+
+  // No timeout: a host may take a while, and the user can cancel with
+  // disconnect().
+  private async waitForAdmission(): Promise<void> {
+    const previous = this.state;
+    // set up before telling anyone, so a listener may cancel right away
+    const admitted = new Promise<void>((resolve, reject) => {
+      this.admission = { resolve, reject };
     });
+    this.setState("waiting");
+    this.emit("waiting");
+    try {
+      await admitted;
+    } finally {
+      this.admission = undefined;
+      // unless disconnect() moved us on, carry on connecting/reconnecting
+      if (this.state === "waiting") this.setState(previous);
+    }
   }
 
-  private joinRoom(): void {
-    this.send({
-      type: "join",
-      participantId: this.participantId,
+  private handleDenied({ reason }: DeniedMessage): void {
+    if (!this.admission) return;
+    this.emit("denied", { reason });
+    this.admission.reject(
+      new Error(reason ?? "A host declined your request to join"),
+    );
+    // Closed before the server hangs up, so we don't try to reconnect.
+    this.disconnect();
+  }
+
+  private async joinRoom(): Promise<void> {
+    const joined = await this.requestJoin();
+    this.applyRoomState(joined);
+    for (const identity of joined.participants ?? []) {
+      this.handleParticipantJoined(identity.participantId, identity);
+    }
+    // Don't emit newProducer yet — device not ready.
+    // Store them and flush after device loads.
+    if (joined.existingProducers && joined.existingProducers.length > 0) {
+      this.pendingExistingProducers.push(...joined.existingProducers);
+    }
+    this.pendingDataProducers.push(...(joined.existingDataProducers ?? []));
+
+    const { data } = await this.request({
+      type: "getRtpCapabilities",
+      roomId: this.roomId,
     });
+    await this.handleRtpCapabilities(data);
+  }
+
+  // Role, lock, waiting room, recordings and hands from a join reply; on a
+  // rejoin it replaces whatever went stale during the outage.
+  private applyRoomState(joined: JoinedMessage): void {
+    this.localRole = joined.role;
+    this.emit("joined", joined);
+    if (joined.waiting) this.emit("knock", joined.waiting);
+    const recording = new Set(joined.recordingParticipants ?? []);
+    for (const participantId of this.recorders) {
+      if (!recording.has(participantId)) {
+        this.handleRecordingState(participantId, "stopped");
+      }
+    }
+    for (const participantId of recording) {
+      this.handleRecordingState(participantId, "recording");
+    }
+    this.emit("raisedHands", joined.raisedHands ?? []);
+  }
+
+  private handleRecordingState(
+    participantId: string,
+    state: RecordingState,
+  ): void {
+    if (state === "stopped") this.recorders.delete(participantId);
+    else this.recorders.add(participantId);
+    this.emit("recordingStateChanged", { participantId, state });
+  }
+
+  /* ─── Reconnection ───────────────────────────────────────────────────── */
+
+  private async reconnect(): Promise<void> {
+    const { maxAttempts, initialDelayMs, maxDelayMs } = this.reconnectOptions;
+    this.setState("reconnecting");
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const delay = Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      this.emit("reconnecting", { attempt, delay });
+      await sleep(delay);
+      // disconnect() was called while we were waiting
+      if (this.state !== "reconnecting") return;
+
+      try {
+        this.ws = new WebSocket(this.wsUrl);
+        this.setupWebSocket();
+        await this.waitForOpen();
+        await this.resumeSession();
+      } catch (error) {
+        console.warn(`Reconnect attempt ${attempt} failed:`, error);
+        if (this.state !== "reconnecting") return;
+        this.ws.close();
+        continue;
+      }
+
+      if (this.state !== "reconnecting") return;
+      this.setState("connected");
+      this.emit("reconnected");
+      return;
+    }
 
-    this.send({
+    this.setState("failed");
+    this.emit("failed");
+  }
+
+  private async resumeSession(): Promise<void> {
+    // The old token may have expired while we were away.
+    if (this.token && this.refreshToken) {
+      this.token = await this.refreshToken(this.token);
+    }
+    const joined = await this.requestJoin();
+    this.applyRoomState(joined);
+    const { data } = await this.request({
       type: "getRtpCapabilities",
+      roomId: this.roomId,
     });
+    const knownParticipants = new Set([
+      ...this.participantIds,
+      ...[...this.consumers.values(), ...this.dataConsumers.values()].map(
+        (consumer) => consumer.appData.participantId,
+      ),
+    ]);
+    // taken before a rebuild closes them all
+    const consumed: ConsumerInfo[] = [...this.consumers.values()].map(
+      (consumer) => ({
+        participantId: consumer.appData.participantId,
+        producerId: consumer.producerId,
+        kind: consumer.kind,
+      }),
+    );
+
+    if (JSON.stringify(data) !== JSON.stringify(this.routerRtpCapabilities)) {
+      // The router changed under us (e.g. server restart): the old device
+      // and transports are useless, so build everything again.
+      await this.rebuildMedia(data);
+    } else {
+      try {
+        await this.restartIce();
+      } catch (error) {
+        console.warn("ICE restart failed, recreating transports:", error);
+        await this.rebuildMedia(data);
+      }
+    }
+
+    // Anyone who joined during the outage; repeats are harmless.
+    for (const identity of joined.participants ?? []) {
+      this.handleParticipantJoined(identity.participantId, identity);
+    }
+    this.syncProducers(joined.existingProducers ?? [], consumed);
+    this.syncParticipants(joined, knownParticipants);
+
+    // A rebuild closed the data channels along with everything else.
+    if (!this.chatProducer) await this.openChatChannel();
+    for (const dataProducer of joined.existingDataProducers ?? []) {
+      this.consumeDataProducer(dataProducer);
+    }
+  }
+
+  private async restartIce(): Promise<void> {
+    const transports = [
+      ...(this.producerTransport ? [this.producerTransport] : []),
+      ...this.recvShards.map((shard) => shard.transport),
+    ];
+
+    for (const transport of transports) {
+      const { iceParameters } = await this.request({
+        type: "restartIce",
+        roomId: this.roomId,
+        participantId: this.participantId,
+        transportId: transport.id,
+      });
+      await transport.restartIce({ iceParameters });
+    }
+  }
+
+  private async rebuildMedia(rtpCapabilities: RtpCapabilities): Promise<void> {
+    const published = [...this.producers.values()].map((producer) => ({
+      track: producer.track,
+      paused: producer.paused,
+      source: producer.appData.source,
+    }));
+
+    this.closeMedia();
+    await this.handleRtpCapabilities(rtpCapabilities);
+
+    for (const { track, paused, source } of published) {
+      if (!track || track.readyState !== "live") continue;
+      await this.produceTrack(track, source);
+      if (paused) await this.pauseProducer(track.kind as MediaKind);
+    }
+  }
+
+  // Consume the producers we missed during an outage, and drop the ones
+  // that closed meanwhile.
+  private syncProducers(
+    existing: ProducerInfo[],
+    consumed: ConsumerInfo[],
+  ): void {
+    const present = new Set(existing.map((producer) => producer.producerId));
+    for (const info of consumed) {
+      if (present.has(info.producerId)) continue;
+      this.closeConsumer(info.producerId);
+      this.emit("producerClosed", info);
+    }
+    for (const producer of existing) {
+      if (!this.consumers.has(producer.producerId)) {
+        this.emit("newProducer", producer);
+      }
+    }
+  }
+
+  // Drop everyone who left during an outage. The rejoin reply lists who is
+  // still here, producers or not; servers that don't send the list only
+  // tell us about people with producers.
+  private syncParticipants(
+    joined: JoinedMessage,
+    knownParticipants: Set<string>,
+  ): void {
+    const present = new Set(
+      (joined.participants ?? joined.existingProducers ?? []).map(
+        (p) => p.participantId,
+      ),
+    );
+    for (const participantId of knownParticipants) {
+      if (!present.has(participantId)) {
+        this.handleParticipantLeft(participantId);
+      }
+    }
   }
 
   private async handleRtpCapabilities(
     rtpCapabilities: RtpCapabilities,
   ): Promise<void> {
+    this.routerRtpCapabilities = rtpCapabilities;
     this.device = new Device();
     await this.device.load({ routerRtpCapabilities: rtpCapabilities });
     console.log("Device loaded with RTP capabilities");
@@ -160,16 +841,21 @@ export class MediasoupClient {
       const producers = [...this.pendingExistingProducers];
       this.pendingExistingProducers = [];
       for (const producer of producers) {
-        this.emit("newProducer", {
-          participantId: producer.participantId,
-          producerId: producer.producerId,
-          kind: producer.kind,
-        });
+        this.emit("newProducer", producer);
       }
     }
+
+    const dataProducers = this.pendingDataProducers;
+    this.pendingDataProducers = [];
+    for (const dataProducer of dataProducers) {
+      this.consumeDataProducer(dataProducer);
+    }
   }
 
-  public async produceTrack(track: MediaStreamTrack): Promise<void> {
+  public async produceTrack(
+    track: MediaStreamTrack,
+    source: ProducerSource = track.kind === "audio" ? "microphone" : "camera",
+  ): Promise<void> {
     if (!this.device) {
       throw new Error("Device not initialized");
     }
@@ -182,65 +868,341 @@ export class MediasoupClient {
       throw new Error("Producer transport not created");
     }
 
-    const producer = await this.producerTransport.produce({ track });
+    // The page owns its tracks; keep them alive if we rebuild transports.
+    const producer = await this.producerTransport.produce({
+      track,
+      stopTracks: false,
+      appData: { source },
+      ...this.encodingsFor(source),
+    });
     this.producers.set(producer.id, producer);
 
-    console.log(`Producing ${track.kind} track:`, producer.id);
+    console.log(`Producing ${source} track:`, producer.id);
   }
 
-  private async createProducerTransport(): Promise<void> {
-    return new Promise<void>((resolve) => {
-      this.once("producerTransportCreated", async (data: any) => {
-        await this.setupProducerTransport(data);
-        resolve();
+  private encodingsFor(source: ProducerSource): {
+    encodings?: RtpEncodingParameters[];
+    codec?: RtpCodecCapability;
+  } {
+    // Screen content is sent as a single full-quality layer.
+    if (source !== "camera") return {};
+
+    const codec = this.device?.rtpCapabilities.codecs?.find(
+      (c) => c.mimeType.toLowerCase() === `video/${this.videoCodec}`,
+    );
+    if (codec && (this.videoCodec === "vp9" || this.videoCodec === "av1")) {
+      return { encodings: SVC_ENCODINGS, codec };
+    }
+    return { encodings: SIMULCAST_ENCODINGS, codec };
+  }
+
+  /**
+   * Asks the server to forward the given spatial/temporal layers of the
+   * consumer of `producerId`. Use low layers for small tiles and high ones
+   * for the presenter or spotlight view; repeated identical calls are no-ops.
+   */
+  public async setPreferredLayers(
+    producerId: string,
+    layers: ConsumerLayers,
+  ): Promise<void> {
+    const consumer = this.consumers.get(producerId);
+    if (!consumer || consumer.kind !== "video") return;
+
+    const key = `${layers.spatialLayer}:${layers.temporalLayer ?? ""}`;
+    if (this.preferredLayers.get(producerId) === key) return;
+    this.preferredLayers.set(producerId, key);
+
+    try {
+      await this.request({
+        type: "setConsumerPreferredLayers",
+        roomId: this.roomId,
+        participantId: this.participantId,
+        consumerId: consumer.id,
+        ...layers,
       });
+    } catch (error) {
+      this.preferredLayers.delete(producerId);
+      throw error;
+    }
+  }
+
+  /**
+   * Who has a tile on screen. Camera video from anyone else is consumed
+   * paused, and only starts flowing once setVideoVisible shows it.
+   */
+  public setVideoOnScreen(participantIds: Iterable<string>): void {
+    this.videoOnScreen = new Set(participantIds);
+  }
+
+  /**
+   * Pauses the server forwarding the video of `producerId` while its tile is
+   * off screen, and resumes it (with a fresh keyframe) once it's back. Audio
+   * is left alone so everyone stays audible; repeated calls are no-ops.
+   */
+  public async setVideoVisible(
+    producerId: string,
+    visible: boolean,
+  ): Promise<void> {
+    const consumer = this.consumers.get(producerId);
+    if (!consumer || consumer.kind !== "video") return;
+    if (visible !== this.hiddenVideo.has(producerId)) return;
 
-      this.send({
-        type: "createProducerTransport",
+    if (visible) this.hiddenVideo.delete(producerId);
+    else this.hiddenVideo.add(producerId);
+    try {
+      await this.request({
+        type: visible ? "resumeConsumer" : "pauseConsumer",
+        roomId: this.roomId,
         participantId: this.participantId,
+        consumerId: consumer.id,
       });
+      // the server acked the resume, so it no longer holds it paused
+      if (visible) this.serverPaused.delete(producerId);
+      if (visible) consumer.resume();
+      else consumer.pause();
+    } catch (error) {
+      if (visible) this.hiddenVideo.add(producerId);
+      else this.hiddenVideo.delete(producerId);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops publishing the producer for `source` (e.g. when a screen share
+   * ends) and tells the server so remote consumers are closed too.
+   */
+  public async closeProducer(source: ProducerSource): Promise<void> {
+    const producer = this.findProducerBySource(source);
+    if (!producer) return;
+
+    producer.close();
+    this.producers.delete(producer.id);
+    await this.request({
+      type: "closeProducer",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      producerId: producer.id,
     });
   }
 
-  private async setupProducerTransport(transportData: any): Promise<void> {
+  private findProducerBySource(
+    source: ProducerSource,
+  ): Producer<ProducerAppData> | undefined {
+    for (const producer of this.producers.values()) {
+      if (producer.appData.source === source) return producer;
+    }
+    return undefined;
+  }
+
+  // Mute/camera controls act on the mic and webcam, never the screen share.
+  private findProducer(kind: MediaKind): Producer<ProducerAppData> | undefined {
+    return this.findProducerBySource(
+      kind === "audio" ? "microphone" : "camera",
+    );
+  }
+
+  /**
+   * Mutes the local producer of the given kind and asks the server to pause
+   * it, which in turn pauses every remote consumer of it.
+   */
+  public async pauseProducer(kind: MediaKind): Promise<void> {
+    const producer = this.findProducer(kind);
+    if (!producer) return;
+
+    // A producer made from a disabled track (camera off in the lobby, or
+    // re-produced after a rebuild) starts out paused here but live on the
+    // server, so tell the server either way.
+    const wasPaused = producer.paused;
+    producer.pause();
+    try {
+      await this.request({
+        type: "pauseProducer",
+        roomId: this.roomId,
+        participantId: this.participantId,
+        producerId: producer.id,
+      });
+    } catch (error) {
+      if (!wasPaused) producer.resume();
+      throw error;
+    }
+  }
+
+  public async resumeProducer(kind: MediaKind): Promise<void> {
+    const closed = this.forceClosed.get(kind);
+    if (closed) {
+      // a pause before the close left the track disabled
+      closed.track.enabled = true;
+      await this.produceTrack(closed.track, closed.source);
+      this.forceClosed.delete(kind);
+      return;
+    }
+
+    const producer = this.findProducer(kind);
+    if (!producer || !producer.paused) return;
+
+    producer.resume();
+    try {
+      await this.request({
+        type: "resumeProducer",
+        roomId: this.roomId,
+        participantId: this.participantId,
+        producerId: producer.id,
+      });
+    } catch (error) {
+      producer.pause();
+      throw error;
+    }
+  }
+
+  public isProducerPaused(kind: MediaKind): boolean {
+    if (this.forceClosed.has(kind)) return true;
+    return this.findProducer(kind)?.paused ?? false;
+  }
+
+  /**
+   * Swaps the microphone or camera track in place via Producer.replaceTrack,
+   * so remote consumers keep receiving without renegotiation and the paused
+   * state carries over. Produces instead if nothing of that kind is being
+   * sent yet, unless a host closed it: then the track waits for unmute.
+   * The caller keeps ownership of both the old and new track.
+   */
+  public async replaceTrack(
+    kind: MediaKind,
+    track: MediaStreamTrack,
+  ): Promise<void> {
+    const closed = this.forceClosed.get(kind);
+    if (closed) {
+      this.forceClosed.set(kind, { ...closed, track });
+      return;
+    }
+    const producer = this.findProducer(kind);
+    if (!producer) {
+      await this.produceTrack(track);
+      return;
+    }
+    await producer.replaceTrack({ track });
+  }
+
+  /**
+   * Tells us what feeds the `kind` producer while it publishes a processed
+   * track, so an unplugged device is noticed on the source and its fallback
+   * stays processed. Pass null once the producer publishes a device again.
+   */
+  public setTrackProcessor(
+    kind: MediaKind,
+    processor: TrackProcessor | null,
+  ): void {
+    if (processor) this.processors.set(kind, processor);
+    else this.processors.delete(kind);
+  }
+
+  // Unplugging a headset or webcam ends the track it fed; move that
+  // producer onto the system default device so the call carries on.
+  private handleDeviceChange = async (): Promise<void> => {
+    let devices: MediaDeviceInfo[];
+    try {
+      devices = await navigator.mediaDevices.enumerateDevices();
+    } catch {
+      return;
+    }
+
+    for (const kind of ["audio", "video"] as const) {
+      const published = this.findProducer(kind)?.track;
+      if (!published) continue;
+      const processor = this.processors.get(kind);
+      const previous = processor?.source ?? published;
+      const { deviceId } = previous.getSettings();
+      const present =
+        !deviceId ||
+        devices.some(
+          (d) => d.kind === `${kind}input` && d.deviceId === deviceId,
+        );
+      if (present && previous.readyState === "live") continue;
+
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          [kind]: this.media[kind],
+        });
+        const [track] = stream.getTracks();
+        // The processor keeps publishing its own track, and keeps processing.
+        if (processor) {
+          await processor.setSource(track);
+        } else {
+          await this.replaceTrack(kind, track);
+          this.emit("trackReplaced", { kind, track, previous });
+        }
+      } catch (error) {
+        console.error(`Error falling back to default ${kind} device:`, error);
+      }
+    }
+  };
+
+  private async createProducerTransport(): Promise<void> {
+    const { data } = await this.request({
+      type: "createProducerTransport",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      sctpCapabilities: this.device?.sctpCapabilities,
+    });
+    this.setupProducerTransport(data);
+  }
+
+  private setupProducerTransport(transportData: TransportOptions): void {
     if (!this.device) throw new Error("Device not initialized");
 
-    this.producerTransport = this.device.createSendTransport(transportData);
+    this.producerTransport = this.device.createSendTransport({
+      ...transportData,
+      iceServers: this.iceServers,
+      iceTransportPolicy: this.iceTransportPolicy,
+    });
+    this.sctpEnabled = !!transportData.sctpParameters;
 
     this.producerTransport.on(
       "connect",
-      async ({ dtlsParameters }, callback, errback) => {
-        try {
-          this.once("producerTransportConnected", () => callback());
-          this.send({
-            type: "connectProducerTransport",
-            participantId: this.participantId,
-            transportId: transportData.id,
-            dtlsParameters,
-          });
-        } catch (error) {
-          errback(error as Error);
-        }
+      ({ dtlsParameters }, callback, errback) => {
+        this.request({
+          type: "connectProducerTransport",
+          roomId: this.roomId,
+          participantId: this.participantId,
+          transportId: transportData.id,
+          dtlsParameters,
+        })
+          .then(() => callback())
+          .catch(errback);
       },
     );
 
     this.producerTransport.on(
       "produce",
-      async ({ kind, rtpParameters }, callback, errback) => {
-        try {
-          this.once("produced", (id: string) => {
-            callback({ id });
-          });
-          this.send({
-            type: "produce",
-            participantId: this.participantId,
-            transportId: transportData.id,
-            kind,
-            rtpParameters,
-          });
-        } catch (error) {
-          errback(error as Error);
-        }
+      ({ kind, rtpParameters, appData }, callback, errback) => {
+        this.request({
+          type: "produce",
+          roomId: this.roomId,
+          participantId: this.participantId,
+          transportId: transportData.id,
+          kind,
+          rtpParameters,
+          appData: appData as ProducerAppData,
+        })
+          .then(({ id }) => callback({ id }))
+          .catch(errback);
+      },
+    );
+
+    this.producerTransport.on(
+      "producedata",
+      ({ sctpStreamParameters, label, protocol }, callback, errback) => {
+        this.request({
+          type: "produceData",
+          roomId: this.roomId,
+          participantId: this.participantId,
+          transportId: transportData.id,
+          sctpStreamParameters,
+          label: label as DataChannelLabel,
+          protocol,
+        })
+          .then(({ id }) => callback({ id }))
+          .catch(errback);
       },
     );
 
@@ -249,94 +1211,156 @@ export class MediasoupClient {
     });
   }
 
-  // FIX: Wrap consumeTrack in a queue so multiple simultaneous calls
-  // don't race on consumerTransportCreated / consumed events
   public async consumeTrack(
     producerParticipantId: string,
     producerId: string,
-  ): Promise<MediaStreamTrack | null> {
-    this.consumeQueue = this.consumeQueue
-      .then(() => this._consumeTrack(producerParticipantId, producerId))
-      .catch(() => null);
-    const track = await this.consumeQueue;
-    return track;
-  }
-
-  private async _consumeTrack(
-    producerParticipantId: string,
-    producerId: string,
+    // screen shares are shown whatever page the presenter's tile is on
+    source?: ProducerSource,
   ): Promise<MediaStreamTrack | null> {
     if (!this.device) {
       throw new Error("Device not initialized");
     }
 
-    const transportKey = producerParticipantId;
-    let consumerTransport = this.consumerTransports.get(transportKey);
+    const existing = this.consumers.get(producerId);
+    if (existing) return existing.track;
 
-    if (!consumerTransport) {
-      consumerTransport = await this.createConsumerTransport(transportKey);
-    }
+    const startedAt = performance.now();
+    let shard: RecvShard | undefined;
+    try {
+      shard = await this.acquireRecvShard();
 
-    return new Promise<MediaStreamTrack | null>((resolve) => {
-      this.once("consumed", async (data: any) => {
-        try {
-          const consumer = await consumerTransport!.consume({
-            id: data.id,
-            producerId: data.producerId,
-            kind: data.kind,
-            rtpParameters: data.rtpParameters,
-          });
-          this.consumers.set(consumer.id, consumer);
-          resolve(consumer.track);
-        } catch (error) {
-          console.error("Error consuming track:", error);
-          resolve(null);
-        }
-      });
-
-      this.send({
+      const { data } = await this.request({
         type: "consume",
+        roomId: this.roomId,
         participantId: this.participantId,
-        transportId: consumerTransport!.id,
+        transportId: shard.transport.id,
         producerParticipantId,
         producerId,
-        rtpCapabilities: this.device!.rtpCapabilities,
+        rtpCapabilities: this.device.rtpCapabilities,
       });
-    });
-  }
 
-  private async createConsumerTransport(key: string): Promise<Transport> {
-    return new Promise<Transport>((resolve) => {
-      this.once("consumerTransportCreated", async (data: any) => {
-        const transport = await this.setupConsumerTransport(data);
-        this.consumerTransports.set(key, transport);
-        resolve(transport);
+      const consumer = await shard.transport.consume({
+        id: data.id,
+        producerId: data.producerId,
+        kind: data.kind,
+        rtpParameters: data.rtpParameters,
+        appData: {
+          participantId: producerParticipantId,
+          transportId: shard.transport.id,
+        },
       });
+      this.consumers.set(producerId, consumer);
+      this.reportFirstFrame(consumer, startedAt);
 
-      this.send({
-        type: "createConsumerTransport",
+      if (
+        consumer.kind === "video" &&
+        source !== "screen" &&
+        this.videoOnScreen &&
+        !this.videoOnScreen.has(producerParticipantId)
+      ) {
+        // still paused on the server; setVideoVisible resumes it
+        this.hiddenVideo.add(producerId);
+        consumer.pause();
+        return consumer.track;
+      }
+
+      // The server creates consumers paused so nothing is forwarded before
+      // we're ready; resuming also makes it request a fresh keyframe.
+      await this.request({
+        type: "resumeConsumer",
+        roomId: this.roomId,
         participantId: this.participantId,
+        consumerId: consumer.id,
       });
-    });
+      return consumer.track;
+    } catch (error) {
+      // closeConsumer frees the shard slot once the consumer exists
+      if (this.consumers.has(producerId)) this.closeConsumer(producerId);
+      else if (shard) shard.load--;
+      console.error("Error consuming track:", error);
+      return null;
+    }
   }
 
-  private async setupConsumerTransport(transportData: any): Promise<Transport> {
-    if (!this.device) throw new Error("Device not initialized");
+  // Remote tracks stay muted until the first RTP arrives, so "unmute" is
+  // when the picture (or sound) can actually start.
+  private reportFirstFrame(
+    consumer: Consumer<ConsumerAppData>,
+    startedAt: number,
+  ): void {
+    const report = () => {
+      const now = performance.now();
+      const timing: FirstFrameTiming = {
+        participantId: consumer.appData.participantId,
+        producerId: consumer.producerId,
+        kind: consumer.kind,
+        consumeMs: Math.round(now - startedAt),
+        sinceJoinMs: Math.round(now - this.joinStartedAt),
+      };
+      console.log("First media received:", timing);
+      this.emit("firstFrame", timing);
+    };
 
-    const transport = this.device.createRecvTransport(transportData);
+    if (!consumer.track.muted) report();
+    else consumer.track.addEventListener("unmute", report, { once: true });
+  }
 
-    transport.on("connect", async ({ dtlsParameters }, callback, errback) => {
-      try {
-        this.once("consumerTransportConnected", () => callback());
-        this.send({
-          type: "connectConsumerTransport",
-          participantId: this.participantId,
-          transportId: transportData.id,
-          dtlsParameters,
+  // Reserves a slot on a recv transport with room to spare, opening a new
+  // shard only when every existing one is full.
+  private async acquireRecvShard(): Promise<RecvShard> {
+    for (;;) {
+      const shard = this.recvShards.find(
+        (s) => s.load < this.maxConsumersPerTransport,
+      );
+      if (shard) {
+        shard.load++;
+        return shard;
+      }
+
+      if (!this.pendingRecvShard) {
+        this.pendingRecvShard = this.createRecvShard().finally(() => {
+          this.pendingRecvShard = undefined;
         });
-      } catch (error) {
-        errback(error as Error);
       }
+      await this.pendingRecvShard;
+    }
+  }
+
+  private releaseRecvShard(transportId: string): void {
+    const shard = this.recvShards.find((s) => s.transport.id === transportId);
+    if (shard) shard.load = Math.max(0, shard.load - 1);
+  }
+
+  private async createRecvShard(): Promise<void> {
+    const { data } = await this.request({
+      type: "createConsumerTransport",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      sctpCapabilities: this.device?.sctpCapabilities,
+    });
+    const transport = this.setupConsumerTransport(data);
+    this.recvShards.push({ transport, load: 0 });
+  }
+
+  private setupConsumerTransport(transportData: TransportOptions): Transport {
+    if (!this.device) throw new Error("Device not initialized");
+
+    const transport = this.device.createRecvTransport({
+      ...transportData,
+      iceServers: this.iceServers,
+      iceTransportPolicy: this.iceTransportPolicy,
+    });
+
+    transport.on("connect", ({ dtlsParameters }, callback, errback) => {
+      this.request({
+        type: "connectConsumerTransport",
+        roomId: this.roomId,
+        participantId: this.participantId,
+        transportId: transportData.id,
+        dtlsParameters,
+      })
+        .then(() => callback())
+        .catch(errback);
     });
 
     transport.on("connectionstatechange", (state) => {
@@ -346,16 +1370,506 @@ export class MediasoupClient {
     return transport;
   }
 
+  private handleRemoteProducerPause(
+    message: ProducerPausedMessage | ProducerResumedMessage,
+  ): void {
+    const paused = message.type === "producerPaused";
+    // The server already stopped forwarding; mirror it locally so the
+    // consumer's track reports the right state.
+    const consumer = this.consumers.get(message.producerId);
+    if (consumer && paused) consumer.pause();
+    // a hidden one stays paused until its tile is back on screen, and one
+    // the server paused until it says consumerResumed
+    else if (
+      consumer &&
+      !this.hiddenVideo.has(message.producerId) &&
+      !this.serverPaused.has(message.producerId)
+    ) {
+      consumer.resume();
+    }
+
+    this.emit(message.type, {
+      participantId: message.participantId,
+      producerId: message.producerId,
+      kind: message.kind,
+      appData: message.appData,
+    });
+  }
+
+  private handleRemoteProducerClosed(message: ProducerClosedMessage): void {
+    this.closeConsumer(message.producerId);
+
+    this.emit("producerClosed", {
+      participantId: message.participantId,
+      producerId: message.producerId,
+      kind: message.kind,
+      appData: message.appData,
+    });
+  }
+
+  private handleConsumerUpdate(
+    message:
+      | ConsumerClosedMessage
+      | ConsumerPausedMessage
+      | ConsumerResumedMessage
+      | ConsumerLayersChangedMessage,
+  ): void {
+    const consumer = this.consumers.get(message.producerId);
+    // stale message for a consumer we already replaced or closed
+    if (!consumer || consumer.id !== message.consumerId) return;
+
+    const info: ConsumerInfo = {
+      participantId: consumer.appData.participantId,
+      producerId: consumer.producerId,
+      kind: consumer.kind,
+    };
+    switch (message.type) {
+      case "consumerClosed":
+        this.closeConsumer(message.producerId);
+        this.emit("consumerClosed", info);
+        break;
+      case "consumerPaused":
+        this.serverPaused.add(message.producerId);
+        consumer.pause();
+        this.emit("consumerPaused", info);
+        break;
+      case "consumerResumed":
+        this.serverPaused.delete(message.producerId);
+        consumer.resume();
+        this.emit("consumerResumed", info);
+        break;
+      case "consumerLayersChanged":
+        this.emit("consumerLayersChanged", { ...info, layers: message.layers });
+        break;
+    }
+  }
+
+  /* ─── Stats ──────────────────────────────────────────────────────────── */
+
+  // Emits a "stats" snapshot every poll, and "qualityChanged" whenever a
+  // stream's grade moves (e.g. good → poor when loss spikes).
+  private async pollStats(): Promise<void> {
+    // getStats can take longer than the interval on a struggling machine
+    if (this.statsPolling) return;
+    this.statsPolling = true;
+    try {
+      const streams: StreamStats[] = [];
+      const transports: TransportStats[] = [];
+
+      // Paused streams carry no media, so there is nothing to grade.
+      for (const producer of this.producers.values()) {
+        if (producer.closed || producer.paused) continue;
+        const metrics = this.statsSampler.stream(
+          producer.id,
+          "send",
+          await producer.getStats(),
+        );
+        streams.push({
+          id: producer.id,
+          direction: "send",
+          kind: producer.kind,
+          participantId: this.participantId,
+          producerId: producer.id,
+          ...metrics,
+          quality: gradeQuality(metrics),
+        });
+      }
+
+      for (const consumer of this.consumers.values()) {
+        if (consumer.closed || consumer.paused) continue;
+        const metrics = this.statsSampler.stream(
+          consumer.id,
+          "recv",
+          await consumer.getStats(),
+        );
+        streams.push({
+          id: consumer.id,
+          direction: "recv",
+          kind: consumer.kind,
+          participantId: consumer.appData.participantId,
+          producerId: consumer.producerId,
+          ...metrics,
+          quality: gradeQuality(metrics),
+        });
+      }
+
+      const allTransports = [
+        ...(this.producerTransport ? [this.producerTransport] : []),
+        ...this.recvShards.map((shard) => shard.transport),
+      ];
+      for (const transport of allTransports) {
+        if (transport.closed) continue;
+        transports.push({
+          id: transport.id,
+          direction: transport.direction,
+          state: transport.connectionState,
+          ...this.statsSampler.transport(
+            transport.id,
+            await transport.getStats(),
+          ),
+        });
+      }
+
+      const ids = [...streams, ...transports].map((s) => s.id);
+      this.statsSampler.retain(ids);
+      const graded = new Map<string, Quality>();
+      for (const stream of streams) {
+        const previous = this.streamQuality.get(stream.id);
+        if (previous && previous !== stream.quality) {
+          this.emit("qualityChanged", { stream, previous });
+        }
+        graded.set(stream.id, stream.quality);
+      }
+      this.streamQuality = graded;
+
+      this.emit("stats", { at: Date.now(), streams, transports });
+    } catch (error) {
+      // usually a producer or consumer closed mid-poll; next poll recovers
+      console.warn("Error collecting stats:", error);
+    } finally {
+      this.statsPolling = false;
+    }
+  }
+
+  /** Tells everyone else in the room that we started/paused/stopped recording. */
+  public async setRecordingState(state: RecordingState): Promise<void> {
+    await this.request({
+      type: "setRecordingState",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      state,
+    });
+  }
+
+  /* ─── Room signals ─────────────────────────────────────────────────────── */
+
+  /** Puts our hand up, at the back of the queue. */
+  public async raiseHand(): Promise<void> {
+    await this.signal({ kind: "raiseHand" });
+  }
+
+  /** Takes our hand down; hosts may name someone else's. */
+  public async lowerHand(targetParticipantId?: string): Promise<void> {
+    await this.signal({ kind: "lowerHand", targetParticipantId });
+  }
+
+  /** Takes every hand down (hosts only). */
+  public async clearRaisedHands(): Promise<void> {
+    await this.signal({ kind: "clearHands" });
+  }
+
+  /** Shows an emoji over our tile for everyone else. */
+  public async sendReaction(emoji: string): Promise<void> {
+    await this.signal({ kind: "reaction", emoji });
+  }
+
+  private async signal(signal: RoomSignal): Promise<void> {
+    await this.request({
+      type: "roomSignal",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      signal,
+    });
+  }
+
+  // Hands come back as a raisedHands push; only reactions are relayed.
+  private handleRoomSignal({ participantId, signal }: RoomSignalPush): void {
+    if (signal.kind === "reaction" && REACTION_EMOJIS.includes(signal.emoji)) {
+      this.emit("reaction", { participantId, emoji: signal.emoji });
+    }
+  }
+
+  /* ─── Moderation (hosts only; the server enforces it) ───────────────────── */
+
+  /** Asks the server to mute someone's mic or camera; they may unmute. */
+  public async requestMute(
+    targetParticipantId: string,
+    kind: MediaKind,
+  ): Promise<void> {
+    await this.request({
+      type: "requestMute",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      targetParticipantId,
+      kind,
+    });
+  }
+
+  /** Stops someone's mic and/or camera outright by closing the producers. */
+  public async closeParticipantProducers(
+    targetParticipantId: string,
+    kind?: MediaKind,
+  ): Promise<void> {
+    await this.request({
+      type: "closeParticipantProducers",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      targetParticipantId,
+      kind,
+    });
+  }
+
+  /** Removes someone from the room. */
+  public async kick(
+    targetParticipantId: string,
+    reason?: string,
+  ): Promise<void> {
+    await this.request({
+      type: "kickParticipant",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      targetParticipantId,
+      reason,
+    });
+  }
+
+  /** Locks or unlocks the room against new joins. */
+  public async setRoomLocked(locked: boolean): Promise<void> {
+    await this.request({
+      type: "setRoomLocked",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      locked,
+    });
+  }
+
+  /** Turns the waiting room on or off for people who join from now on. */
+  public async setWaitingRoom(enabled: boolean): Promise<void> {
+    await this.request({
+      type: "setWaitingRoom",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      enabled,
+    });
+  }
+
+  /** Lets waiting participants in; everyone waiting if no ids are given. */
+  public async admit(...targetParticipantIds: string[]): Promise<void> {
+    await this.request({
+      type: "admitParticipants",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      targetParticipantIds: targetParticipantIds.length
+        ? targetParticipantIds
+        : undefined,
+    });
+  }
+
+  /** Turns waiting participants away; everyone waiting if no ids are given. */
+  public async deny(
+    targetParticipantIds: string[] = [],
+    reason?: string,
+  ): Promise<void> {
+    await this.request({
+      type: "denyParticipants",
+      roomId: this.roomId,
+      participantId: this.participantId,
+      targetParticipantIds: targetParticipantIds.length
+        ? targetParticipantIds
+        : undefined,
+      reason,
+    });
+  }
+
+  // The server already paused or closed the producer; mirror it locally so
+  // our own controls show the truth.
+  private handleForceMuted({
+    kind,
+    closed,
+    byParticipantId,
+  }: ForceMutedMessage): void {
+    const producer = this.findProducer(kind);
+    if (producer && closed) {
+      producer.close();
+      this.producers.delete(producer.id);
+      if (producer.track) {
+        this.forceClosed.set(kind, {
+          track: producer.track,
+          source: producer.appData.source,
+        });
+      }
+    } else if (producer) {
+      producer.pause();
+    }
+    this.emit("forceMuted", { kind, closed, byParticipantId });
+  }
+
+  private handleKicked({ byParticipantId, reason }: KickedMessage): void {
+    this.emit("kicked", { byParticipantId, reason });
+    // Closed before the server hangs up, so we don't try to reconnect.
+    this.disconnect();
+  }
+
+  /* ─── Chat ─────────────────────────────────────────────────────────────── */
+
+  // One ordered, reliable channel per participant. Without SCTP on either
+  // end we leave chatProducer unset and sendChat() only uses the WebSocket.
+  private async openChatChannel(): Promise<void> {
+    try {
+      if (!this.producerTransport) await this.createProducerTransport();
+      if (!this.producerTransport || !this.sctpEnabled) return;
+      this.chatProducer = await this.producerTransport.produceData({
+        label: "chat",
+        ordered: true,
+      });
+    } catch (error) {
+      console.warn("Chat data channel unavailable, using signaling:", error);
+      this.chatProducer = undefined;
+    }
+  }
+
+  /**
+   * Sends a chat message to everyone else in the room. It always goes
+   * through the signaling server, which reaches people who don't (yet)
+   * consume our data channel; the channel, when open, is just the faster
+   * way there, and receivers drop whichever copy comes second.
+   * Resolves with the message as sent so the caller can show it.
+   */
+  public async sendChat(text: string): Promise<ChatMessage> {
+    const sentAt = Date.now();
+    const message: ChatMessage = {
+      participantId: this.participantId,
+      text,
+      sentAt,
+      id: `${this.participantId}-${sentAt}-${this.nextChatId++}`,
+    };
+
+    if (this.chatProducer?.readyState === "open") {
+      this.chatProducer.send(JSON.stringify({ text, sentAt, id: message.id }));
+    }
+    await this.request({
+      type: "chatMessage",
+      roomId: this.roomId,
+      ...message,
+    });
+    return message;
+  }
+
+  private receiveChat(message: ChatMessage): void {
+    if (message.id !== undefined) {
+      if (this.seenChat.has(message.id)) return;
+      this.seenChat.add(message.id);
+      // only the other copy is ever still to come; keep the last few
+      if (this.seenChat.size > MAX_SEEN_CHAT) {
+        const [oldest] = this.seenChat;
+        this.seenChat.delete(oldest);
+      }
+    }
+    this.emit("chatMessage", message);
+  }
+
+  private async consumeDataProducer({
+    participantId,
+    dataProducerId,
+    label,
+  }: DataProducerInfo): Promise<void> {
+    if (label !== "chat" || this.dataConsumers.has(dataProducerId)) return;
+
+    let shard: RecvShard | undefined;
+    try {
+      shard = await this.acquireRecvShard();
+      const transport = shard.transport;
+      const { data } = await this.request({
+        type: "consumeData",
+        roomId: this.roomId,
+        participantId: this.participantId,
+        transportId: transport.id,
+        producerParticipantId: participantId,
+        dataProducerId,
+      });
+
+      const dataConsumer = await transport.consumeData({
+        id: data.id,
+        dataProducerId: data.dataProducerId,
+        sctpStreamParameters: data.sctpStreamParameters,
+        label: data.label,
+        protocol: data.protocol,
+        appData: { participantId, transportId: transport.id },
+      });
+      dataConsumer.on("message", (raw) =>
+        this.handleChatData(participantId, raw),
+      );
+      this.dataConsumers.set(dataProducerId, dataConsumer);
+    } catch (error) {
+      if (shard) shard.load--;
+      console.error("Error consuming chat channel:", error);
+    }
+  }
+
+  private handleChatData(participantId: string, raw: unknown): void {
+    try {
+      const { text, sentAt, id } = JSON.parse(String(raw));
+      if (typeof text !== "string") return;
+      this.receiveChat({
+        participantId,
+        text,
+        sentAt: typeof sentAt === "number" ? sentAt : Date.now(),
+        id: typeof id === "string" ? id : undefined,
+      });
+    } catch {
+      console.warn(`Ignoring malformed chat data from ${participantId}`);
+    }
+  }
+
+  private closeConsumer(producerId: string): void {
+    const consumer = this.consumers.get(producerId);
+    if (!consumer) return;
+    consumer.close();
+    this.consumers.delete(producerId);
+    this.preferredLayers.delete(producerId);
+    this.hiddenVideo.delete(producerId);
+    this.serverPaused.delete(producerId);
+    this.releaseRecvShard(consumer.appData.transportId);
+  }
+
+  private handleParticipantJoined(
+    participantId: string,
+    identity?: ParticipantIdentity,
+  ): void {
+    this.participantIds.add(participantId);
+    this.emit("participantJoined", participantId, identity);
+  }
+
+  // The shared recv transport stays up; only this participant's consumers go.
   private handleParticipantLeft(participantId: string): void {
-    const transport = this.consumerTransports.get(participantId);
-    if (transport) {
-      transport.close();
-      this.consumerTransports.delete(participantId);
+    this.participantIds.delete(participantId);
+    for (const [producerId, consumer] of this.consumers) {
+      if (consumer.appData.participantId === participantId) {
+        this.closeConsumer(producerId);
+      }
+    }
+
+    for (const [id, dataConsumer] of this.dataConsumers) {
+      if (dataConsumer.appData.participantId !== participantId) continue;
+      dataConsumer.close();
+      this.dataConsumers.delete(id);
+      this.releaseRecvShard(dataConsumer.appData.transportId);
     }
+
     this.emit("participantLeft", participantId);
   }
 
   public disconnect(): void {
+    clearInterval(this.statsTimer);
+    navigator.mediaDevices?.removeEventListener(
+      "devicechange",
+      this.handleDeviceChange,
+    );
+    this.setState("closed");
+    this.closeMedia();
+    this.forceClosed.clear();
+    this.participantIds.clear();
+    this.recorders.clear();
+    this.videoOnScreen = undefined;
+    this.rejectPendingRequests(new Error("Client disconnected"));
+    this.ws.close();
+    // A closed client emits nothing worth hearing, and a remounting
+    // component must not keep the old one's handlers alive.
+    this.listeners.clear();
+    this.onceWrappers.clear();
+  }
+
+  private closeMedia(): void {
     for (const producer of this.producers.values()) {
       producer.close();
     }
@@ -365,46 +1879,88 @@ export class MediasoupClient {
       consumer.close();
     }
     this.consumers.clear();
+    this.preferredLayers.clear();
+    this.hiddenVideo.clear();
+    this.serverPaused.clear();
+
+    this.chatProducer?.close();
+    this.chatProducer = undefined;
+    for (const dataConsumer of this.dataConsumers.values()) {
+      dataConsumer.close();
+    }
+    this.dataConsumers.clear();
 
     this.producerTransport?.close();
+    this.producerTransport = undefined;
 
-    for (const transport of this.consumerTransports.values()) {
-      transport.close();
+    for (const shard of this.recvShards) {
+      shard.transport.close();
     }
-    this.consumerTransports.clear();
+    this.recvShards = [];
+  }
 
-    this.ws.close();
+  /** Adds a listener; call the returned function to remove it again. */
+  public on<E extends MediasoupClientEvent>(
+    event: E,
+    listener: MediasoupClientListener<E>,
+  ): () => void {
+    this.listenersOf(event).add(listener);
+    return () => this.off(event, listener);
   }
 
-  public on(event: string, callback: EventCallback): void {
-    if (!this.eventHandlers.has(event)) {
-      this.eventHandlers.set(event, []);
+  /** Like on(), but the listener is removed after its first call. */
+  public once<E extends MediasoupClientEvent>(
+    event: E,
+    listener: MediasoupClientListener<E>,
+  ): () => void {
+    let wrappers = this.onceWrappers.get(event);
+    if (!wrappers) {
+      wrappers = new Map();
+      this.onceWrappers.set(event, wrappers);
+    }
+    if (!wrappers.has(listener)) {
+      const wrapper: MediasoupClientListener<E> = (...args) => {
+        this.off(event, listener);
+        listener(...args);
+      };
+      wrappers.set(listener, wrapper);
+      this.listenersOf(event).add(wrapper);
     }
-    this.eventHandlers.get(event)!.push(callback);
+    return () => this.off(event, listener);
   }
 
-  private once(event: string, callback: EventCallback): void {
-    const wrapper = (...args: any[]) => {
-      callback(...args);
-      this.off(event, wrapper);
-    };
-    this.on(event, wrapper);
+  /** Removes a listener added with on() or once(). */
+  public off<E extends MediasoupClientEvent>(
+    event: E,
+    listener: MediasoupClientListener<E>,
+  ): void {
+    const wrappers = this.onceWrappers.get(event);
+    const wrapper = wrappers?.get(listener) as
+      MediasoupClientListener<E> | undefined;
+    wrappers?.delete(listener);
+    const listeners = this.listenersOf(event);
+    if (wrapper) listeners.delete(wrapper);
+    listeners.delete(listener);
   }
 
-  private off(event: string, callback: EventCallback): void {
-    const handlers = this.eventHandlers.get(event);
-    if (handlers) {
-      const index = handlers.indexOf(callback);
-      if (index > -1) {
-        handlers.splice(index, 1);
-      }
+  private listenersOf<E extends MediasoupClientEvent>(
+    event: E,
+  ): Set<MediasoupClientListener<E>> {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
     }
+    return listeners as Set<MediasoupClientListener<E>>;
   }
 
-  private emit(event: string, ...args: any[]): void {
-    const handlers = this.eventHandlers.get(event);
-    if (handlers) {
-      handlers.forEach((handler) => handler(...args));
+  private emit<E extends MediasoupClientEvent>(
+    event: E,
+    ...args: MediasoupClientEvents[E]
+  ): void {
+    // a copy, so listeners may remove themselves (or others) mid-emit
+    for (const listener of [...this.listenersOf(event)]) {
+      listener(...args);
     }
   }
 }
@@ -0,0 +1,259 @@
+import { resumeAudioContext } from "./audioContext";
+
+/* ─── Local meeting recording ───────────────────────────────────────────────
+   Every participant's video is drawn into one canvas grid and every audio
+   track mixed into one Web Audio destination; MediaRecorder then encodes
+   canvas + mix to WebM. Nothing leaves the browser.
+─────────────────────────────────────────────────────────────────────────── */
+
+export interface RecordingSource {
+  id: string;
+  label: string;
+  videoTrack?: MediaStreamTrack;
+  audioTrack?: MediaStreamTrack;
+}
+
+export type RecorderState = "inactive" | "recording" | "paused";
+
+interface Tile {
+  source: RecordingSource;
+  video?: HTMLVideoElement;
+  audio?: MediaStreamAudioSourceNode;
+}
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FPS = 30;
+const GAP = 8;
+
+// First one the browser can encode wins.
+const MIME_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+];
+
+function initialsOf(label: string): string {
+  return label
+    .split(/[\s\-_]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join("");
+}
+
+export class MeetingRecorder {
+  private canvas = document.createElement("canvas");
+  private context2d: CanvasRenderingContext2D;
+  private audioContext = new AudioContext();
+  private destination = this.audioContext.createMediaStreamDestination();
+  private tiles = new Map<string, Tile>();
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+  // elapsed time bookkeeping, excluding paused stretches
+  private startedAt = 0;
+  private pausedAt = 0;
+  private pausedMs = 0;
+
+  public static isSupported(): boolean {
+    return (
+      typeof MediaRecorder !== "undefined" &&
+      MIME_TYPES.some((type) => MediaRecorder.isTypeSupported(type))
+    );
+  }
+
+  constructor() {
+    this.canvas.width = WIDTH;
+    this.canvas.height = HEIGHT;
+    const context2d = this.canvas.getContext("2d");
+    if (!context2d) throw new Error("Canvas 2D not available");
+    this.context2d = context2d;
+
+    const stream = new MediaStream([
+      ...this.canvas.captureStream(FPS).getVideoTracks(),
+      ...this.destination.stream.getAudioTracks(),
+    ]);
+    this.recorder = new MediaRecorder(stream, {
+      mimeType: MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)),
+    });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+  }
+
+  public get state(): RecorderState {
+    return this.recorder.state;
+  }
+
+  public get elapsedMs(): number {
+    if (this.state === "inactive") return 0;
+    const now = this.state === "paused" ? this.pausedAt : Date.now();
+    return now - this.startedAt - this.pausedMs;
+  }
+
+  /** Replaces the set of people in the recording. Idempotent per track. */
+  public setSources(sources: RecordingSource[]): void {
+    const ids = new Set(sources.map((s) => s.id));
+    for (const [id, tile] of this.tiles) {
+      if (!ids.has(id)) this.removeTile(id, tile);
+    }
+
+    for (const source of sources) {
+      const tile = this.tiles.get(source.id);
+      if (
+        tile &&
+        tile.source.videoTrack === source.videoTrack &&
+        tile.source.audioTrack === source.audioTrack
+      ) {
+        tile.source = source;
+        continue;
+      }
+      if (tile) this.removeTile(source.id, tile);
+      this.tiles.set(source.id, this.createTile(source));
+    }
+  }
+
+  public start(): void {
+    resumeAudioContext(this.audioContext);
+    this.draw();
+    this.timer = setInterval(() => this.draw(), 1000 / FPS);
+    // 1s slices, so a crash mid-meeting still leaves most of the data
+    this.recorder.start(1000);
+    this.startedAt = Date.now();
+  }
+
+  public pause(): void {
+    if (this.state !== "recording") return;
+    this.recorder.pause();
+    this.pausedAt = Date.now();
+  }
+
+  public resume(): void {
+    if (this.state !== "paused") return;
+    this.recorder.resume();
+    this.pausedMs += Date.now() - this.pausedAt;
+  }
+
+  /** Stops recording, releases everything and resolves with the WebM. */
+  public stop(): Promise<Blob> {
+    return new Promise((resolve) => {
+      const finish = () => {
+        clearInterval(this.timer);
+        for (const [id, tile] of this.tiles) this.removeTile(id, tile);
+        this.audioContext.close().catch(() => {});
+        resolve(new Blob(this.chunks, { type: "video/webm" }));
+      };
+      if (this.state === "inactive") {
+        finish();
+        return;
+      }
+      this.recorder.addEventListener("stop", finish, { once: true });
+      this.recorder.stop();
+    });
+  }
+
+  private createTile(source: RecordingSource): Tile {
+    const tile: Tile = { source };
+    if (source.videoTrack) {
+      const video = document.createElement("video");
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = new MediaStream([source.videoTrack]);
+      video.play().catch(() => {});
+      tile.video = video;
+    }
+    if (source.audioTrack) {
+      tile.audio = this.audioContext.createMediaStreamSource(
+        new MediaStream([source.audioTrack]),
+      );
+      tile.audio.connect(this.destination);
+    }
+    return tile;
+  }
+
+  private removeTile(id: string, tile: Tile): void {
+    if (tile.video) {
+      tile.video.pause();
+      tile.video.srcObject = null;
+    }
+    tile.audio?.disconnect();
+    this.tiles.delete(id);
+  }
+
+  private draw(): void {
+    const ctx = this.context2d;
+    ctx.fillStyle = "#07070e";
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+    const tiles = [...this.tiles.values()];
+    if (tiles.length === 0) return;
+    const cols = Math.ceil(Math.sqrt(tiles.length));
+    const rows = Math.ceil(tiles.length / cols);
+    const cellW = (WIDTH - GAP * (cols + 1)) / cols;
+    const cellH = (HEIGHT - GAP * (rows + 1)) / rows;
+
+    tiles.forEach((tile, i) => {
+      const x = GAP + (i % cols) * (cellW + GAP);
+      const y = GAP + Math.floor(i / cols) * (cellH + GAP);
+      this.drawTile(tile, x, y, cellW, cellH);
+    });
+  }
+
+  private drawTile(
+    tile: Tile,
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+  ): void {
+    const ctx = this.context2d;
+    const { video, source } = tile;
+    const showVideo =
+      video &&
+      video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA &&
+      source.videoTrack?.enabled &&
+      !source.videoTrack.muted;
+
+    ctx.fillStyle = "#0a0a12";
+    ctx.fillRect(x, y, w, h);
+
+    if (showVideo) {
+      // object-fit: cover
+      const scale = Math.max(w / video.videoWidth, h / video.videoHeight);
+      const sw = w / scale;
+      const sh = h / scale;
+      ctx.drawImage(
+        video,
+        (video.videoWidth - sw) / 2,
+        (video.videoHeight - sh) / 2,
+        sw,
+        sh,
+        x,
+        y,
+        w,
+        h,
+      );
+    } else {
+      const r = Math.min(w, h) * 0.14;
+      ctx.fillStyle = "rgba(99,102,241,0.25)";
+      ctx.beginPath();
+      ctx.arc(x + w / 2, y + h / 2, r, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = "#c7d2fe";
+      ctx.font = `600 ${Math.round(r * 0.8)}px sans-serif`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(initialsOf(source.label), x + w / 2, y + h / 2);
+    }
+
+    ctx.font = "500 16px sans-serif";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "bottom";
+    const labelWidth = ctx.measureText(source.label).width;
+    ctx.fillStyle = "rgba(0,0,0,0.65)";
+    ctx.fillRect(x + 10, y + h - 38, labelWidth + 20, 28);
+    ctx.fillStyle = "#fff";
+    ctx.fillText(source.label, x + 20, y + h - 16);
+  }
+}
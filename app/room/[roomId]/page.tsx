@@ -0,0 +1,24 @@
+import { notFound } from "next/navigation";
+import Conference from "../../components/Conference";
+import { MediasoupProvider } from "../../components/MediasoupProvider";
+import { loadClientConfig } from "../../config";
+
+export default async function RoomPage({
+  params,
+}: {
+  params: Promise<{ roomId: string }>;
+}) {
+  const { roomId } = await params;
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(roomId);
+  } catch {
+    // a malformed escape like %E0%A4%A names no room
+    notFound();
+  }
+  return (
+    <MediasoupProvider>
+      <Conference roomId={decoded} config={loadClientConfig()} />
+    </MediasoupProvider>
+  );
+}
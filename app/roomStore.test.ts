@@ -0,0 +1,274 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RoomStore, type JoinOptions } from "./roomStore";
+import { FakeDevice, fakeTrack } from "./testing/fakeMediasoup";
+import { FakeSignalingServer } from "./testing/fakeSignalingServer";
+
+vi.mock("mediasoup-client", async () => ({
+  Device: (await import("./testing/fakeMediasoup")).FakeDevice,
+}));
+
+// Node has no MediaStream; the store only ever lists and splits its tracks.
+class FakeMediaStream {
+  constructor(private tracks: MediaStreamTrack[] = []) {}
+  getTracks = () => [...this.tracks];
+  getAudioTracks = () => this.tracks.filter((t) => t.kind === "audio");
+  getVideoTracks = () => this.tracks.filter((t) => t.kind === "video");
+}
+
+let server: FakeSignalingServer;
+let store: RoomStore;
+
+function fakeStream(): MediaStream {
+  return new FakeMediaStream([
+    fakeTrack("audio"),
+    fakeTrack("video"),
+  ]) as unknown as MediaStream;
+}
+
+function join(options: Partial<JoinOptions> = {}): Promise<boolean> {
+  return store.join({
+    signalingUrl: "ws://signaling.test",
+    roomId: "room-1",
+    participantId: "alice",
+    stream: fakeStream(),
+    statsIntervalMs: 0,
+    ...options,
+  });
+}
+
+beforeEach(() => {
+  server = new FakeSignalingServer();
+  store = new RoomStore();
+  FakeDevice.instances = [];
+  vi.stubGlobal("WebSocket", server.WebSocket);
+  vi.stubGlobal("navigator", {});
+  vi.stubGlobal("MediaStream", FakeMediaStream);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  store.leave();
+  // let close events from disconnect() fire while console.log is still muted
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("join", () => {
+  it("publishes the stream and tracks everyone's tracks", async () => {
+    server.addRemote("bob", ["audio", "video"]);
+    const stream = fakeStream();
+
+    await expect(join({ stream, micOff: true })).resolves.toBe(true);
+
+    const snapshot = store.getSnapshot();
+    expect(snapshot.inCall).toBe(true);
+    expect(snapshot.connectionState).toBe("connected");
+    expect(snapshot.local).toMatchObject({
+      stream,
+      micMuted: true,
+      cameraOff: false,
+    });
+    expect(server.requests("produce")).toHaveLength(2);
+    await vi.waitFor(() => {
+      const bob = store.getSnapshot().participants.get("bob");
+      expect(bob?.audioTrack?.kind).toBe("audio");
+      expect(bob?.videoTrack?.kind).toBe("video");
+    });
+  });
+
+  it("tells the server about media the lobby turned off", async () => {
+    const stream = fakeStream();
+    // the lobby disables what it hands over muted
+    stream.getTracks().forEach((track) => (track.enabled = false));
+
+    await join({ stream, micOff: true, cameraOff: true });
+
+    expect(server.requests("pauseProducer")).toHaveLength(2);
+    expect(store.getSnapshot().local).toMatchObject({
+      micMuted: true,
+      cameraOff: true,
+    });
+  });
+
+  it("forgets participants who leave", async () => {
+    await join();
+    server.addRemote("bob", ["audio"]);
+    await vi.waitFor(() =>
+      expect(
+        store.getSnapshot().participants.get("bob")?.audioTrack,
+      ).toBeTruthy(),
+    );
+
+    server.removeRemote("bob");
+
+    await vi.waitFor(() =>
+      expect(store.getSnapshot().participants.has("bob")).toBe(false),
+    );
+  });
+
+  it("hands the stream back when the join fails", async () => {
+    server.failNext("join", "Room is locked");
+    const stream = fakeStream();
+
+    await expect(join({ stream })).rejects.toThrow("Room is locked");
+
+    expect(store.getSnapshot()).toMatchObject({
+      client: null,
+      inCall: false,
+      local: { stream: null },
+    });
+    expect(stream.getTracks().map((t) => t.readyState)).toEqual([
+      "live",
+      "live",
+    ]);
+  });
+});
+
+describe("subscribe", () => {
+  it("hands out a new snapshot on every change until unsubscribed", async () => {
+    const seen = [store.getSnapshot()];
+    const unsubscribe = store.subscribe(() => seen.push(store.getSnapshot()));
+
+    await join();
+    expect(seen.at(-1)?.inCall).toBe(true);
+    expect(new Set(seen).size).toBe(seen.length);
+
+    unsubscribe();
+    const count = seen.length;
+    store.leave();
+    expect(seen).toHaveLength(count);
+  });
+});
+
+describe("leave", () => {
+  it("stops our tracks and goes back to idle", async () => {
+    const stream = fakeStream();
+    await join({ stream });
+
+    store.leave();
+    store.leave();
+
+    expect(store.getSnapshot()).toMatchObject({
+      client: null,
+      inCall: false,
+      connectionState: "new",
+    });
+    expect(stream.getTracks().map((t) => t.readyState)).toEqual([
+      "ended",
+      "ended",
+    ]);
+  });
+
+  it("cancels a join waiting for a host", async () => {
+    server.enableWaitingRoom("host");
+    const joining = join();
+    await vi.waitFor(() =>
+      expect(store.getSnapshot().connectionState).toBe("waiting"),
+    );
+
+    store.leave();
+
+    await expect(joining).resolves.toBe(false);
+    expect(store.getSnapshot().connectionState).toBe("new");
+  });
+});
+
+describe("ended", () => {
+  it("records a host turning us away", async () => {
+    server.enableWaitingRoom("host");
+    const joining = join();
+    await vi.waitFor(() =>
+      expect(store.getSnapshot().connectionState).toBe("waiting"),
+    );
+
+    server.deny(["alice"], "Invite only");
+
+    await expect(joining).rejects.toThrow("Invite only");
+    expect(store.getSnapshot().ended).toEqual({
+      cause: "denied",
+      reason: "Invite only",
+    });
+  });
+
+  it("hangs up when a host removes us", async () => {
+    const host = new RoomStore();
+    await host.join({
+      signalingUrl: "ws://signaling.test",
+      roomId: "room-1",
+      participantId: "host",
+      stream: null,
+      statsIntervalMs: 0,
+    });
+    const stream = fakeStream();
+    await join({ stream });
+    // let the host finish consuming us before it hangs up
+    await vi.waitFor(() =>
+      expect(
+        host.getSnapshot().participants.get("alice")?.videoTrack,
+      ).toBeTruthy(),
+    );
+
+    await host.getSnapshot().client?.kick("alice", "Off topic");
+
+    await vi.waitFor(() =>
+      expect(store.getSnapshot().ended).toEqual({
+        cause: "kicked",
+        reason: "Off topic",
+      }),
+    );
+    expect(store.getSnapshot().inCall).toBe(false);
+    expect(stream.getTracks().every((t) => t.readyState === "ended")).toBe(
+      true,
+    );
+    host.leave();
+  });
+});
+
+describe("local media", () => {
+  it("swaps a replaced track into a new stream and stops the old one", async () => {
+    const stream = fakeStream();
+    await join({ stream });
+    const [oldVideo] = stream.getVideoTracks();
+    const newVideo = fakeTrack("video");
+
+    await store.replaceTrack("video", newVideo);
+
+    const { local } = store.getSnapshot();
+    expect(local.stream).not.toBe(stream);
+    expect(local.stream?.getVideoTracks()).toEqual([newVideo]);
+    expect(local.stream?.getAudioTracks()).toEqual(stream.getAudioTracks());
+    expect(oldVideo.readyState).toBe("ended");
+  });
+
+  it("mutes and unmutes the mic", async () => {
+    await join();
+
+    await store.toggleMedia("audio");
+    expect(store.getSnapshot().local.micMuted).toBe(true);
+    await store.toggleMedia("audio");
+    expect(store.getSnapshot().local.micMuted).toBe(false);
+  });
+  it("unpublishes a screen share that ended while being published", async () => {
+    await join();
+    const screen = fakeTrack("video");
+    server.after("produce", () => screen.stop());
+
+    await store.shareScreen(screen);
+
+    expect(server.requests("closeProducer")).toHaveLength(1);
+    expect(store.getSnapshot().local.screenTrack).toBeNull();
+  });
+
+  it("stops the capture when the screen share can't be published", async () => {
+    await join();
+    const screen = fakeTrack("video");
+    server.failNext("produce", "Too many producers");
+
+    await expect(store.shareScreen(screen)).rejects.toThrow(
+      "Too many producers",
+    );
+    expect(screen.readyState).toBe("ended");
+    expect(store.getSnapshot().local.screenTrack).toBeNull();
+  });
+});
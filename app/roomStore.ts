@@ -0,0 +1,481 @@
+import type { MediaKind } from "mediasoup-client/types";
+import {
+  type ConnectionState,
+  type ConsumerInfo,
+  MediasoupClient,
+  type MediasoupClientOptions,
+} from "./mediasoupClient";
+import type {
+  ConsumerLayers,
+  ParticipantIdentity,
+  ParticipantRole,
+  ProducerInfo,
+  RaisedHand,
+} from "./signaling";
+
+/* ─── Room store ────────────────────────────────────────────────────────────
+   Everything a page needs to render a call, kept as one immutable snapshot
+   that changes whenever the MediasoupClient reports something. React reads
+   it through useSyncExternalStore (see MediasoupProvider), but nothing in
+   here depends on React.
+
+   The store outlives any one call: join() creates the client and leave()
+   tears it down, so a page can go lobby → call → lobby with one store.
+─────────────────────────────────────────────────────────────────────────── */
+
+export interface RemoteParticipant {
+  id: string;
+  // unknown until the server tells us (older servers never do)
+  identity?: ParticipantIdentity;
+  videoTrack?: MediaStreamTrack;
+  audioTrack?: MediaStreamTrack;
+  screenTrack?: MediaStreamTrack;
+  audioProducerId?: string;
+  videoProducerId?: string;
+  screenProducerId?: string;
+  audioMuted?: boolean;
+  videoOff?: boolean;
+  // the server stopped forwarding the camera (consumer paused, or no
+  // simulcast layer fits the link), as opposed to the sender turning it off
+  videoPaused?: boolean;
+  videoLayers?: ConsumerLayers | null;
+}
+
+export interface LocalMedia {
+  // mic and camera as published; a new stream whenever a track is swapped
+  stream: MediaStream | null;
+  micMuted: boolean;
+  cameraOff: boolean;
+  screenTrack: MediaStreamTrack | null;
+}
+
+// Why the last call ended, when it wasn't our own leave().
+export interface CallEnd {
+  cause: "denied" | "kicked";
+  reason?: string;
+}
+
+export interface RoomSnapshot {
+  client: MediasoupClient | null;
+  participantId: string | null;
+  connectionState: ConnectionState;
+  // joined and publishing; false in the lobby and the waiting room
+  inCall: boolean;
+  // of the reconnect in progress, or the last one before giving up
+  reconnectAttempt: number;
+  // in join order
+  participants: ReadonlyMap<string, RemoteParticipant>;
+  local: LocalMedia;
+  // the server's word on our role; undefined until joined
+  role?: ParticipantRole;
+  locked: boolean;
+  waitingRoom: boolean;
+  // who is knocking; only hosts are told
+  waiting: ParticipantIdentity[];
+  // other participants currently recording (or paused)
+  recorders: ReadonlySet<string>;
+  // everyone with a hand up, ours included, first raised first
+  raisedHands: RaisedHand[];
+  ended: CallEnd | null;
+}
+
+export interface JoinOptions extends MediasoupClientOptions {
+  signalingUrl: string;
+  roomId: string;
+  participantId: string;
+  // published once we are in; the store owns it from then on
+  stream: MediaStream | null;
+  micOff?: boolean;
+  cameraOff?: boolean;
+}
+
+export type TrackKind = "audio" | "video" | "screen";
+
+const IDLE: RoomSnapshot = {
+  client: null,
+  participantId: null,
+  connectionState: "new",
+  inCall: false,
+  reconnectAttempt: 0,
+  participants: new Map(),
+  local: { stream: null, micMuted: false, cameraOff: false, screenTrack: null },
+  locked: false,
+  waitingRoom: false,
+  waiting: [],
+  recorders: new Set(),
+  raisedHands: [],
+  ended: null,
+};
+
+type TrackSlot = "audioTrack" | "videoTrack" | "screenTrack";
+
+const SLOT_OF: Record<TrackKind, TrackSlot> = {
+  audio: "audioTrack",
+  video: "videoTrack",
+  screen: "screenTrack",
+};
+
+const PRODUCER_ID_OF = {
+  audioTrack: "audioProducerId",
+  videoTrack: "videoProducerId",
+  screenTrack: "screenProducerId",
+} as const satisfies Record<TrackSlot, keyof RemoteParticipant>;
+
+// Which RemoteParticipant slot a producer's track lives in.
+function trackSlot(data: ProducerInfo): TrackSlot {
+  if (data.appData?.source === "screen") return "screenTrack";
+  return data.kind === "audio" ? "audioTrack" : "videoTrack";
+}
+
+// The slot currently holding `producerId`'s track, if any.
+function slotOfProducer(
+  participant: RemoteParticipant,
+  producerId: string,
+): TrackSlot | undefined {
+  return (Object.keys(PRODUCER_ID_OF) as TrackSlot[]).find(
+    (slot) => participant[PRODUCER_ID_OF[slot]] === producerId,
+  );
+}
+
+/** The track a participant currently sends of one kind, if any. */
+export function remoteTrack(
+  participant: RemoteParticipant | undefined,
+  kind: TrackKind,
+): MediaStreamTrack | undefined {
+  return participant?.[SLOT_OF[kind]];
+}
+
+export class RoomStore {
+  private snapshot: RoomSnapshot = IDLE;
+  private listeners = new Set<() => void>();
+  private client: MediasoupClient | null = null;
+
+  // Arrow properties throughout, so React can take them unbound and
+  // useSyncExternalStore sees the same subscribe on every render.
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  public getSnapshot = (): RoomSnapshot => this.snapshot;
+
+  private update(patch: Partial<RoomSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...patch };
+    for (const listener of [...this.listeners]) listener();
+  }
+
+  private updateLocal(patch: Partial<LocalMedia>): void {
+    this.update({ local: { ...this.snapshot.local, ...patch } });
+  }
+
+  // Patches one participant's entry; unknown ids are ignored unless
+  // `create` is set.
+  private updateParticipant(
+    id: string,
+    patch: (participant: RemoteParticipant) => Partial<RemoteParticipant>,
+    create = false,
+  ): void {
+    const participant =
+      this.snapshot.participants.get(id) ?? (create ? { id } : undefined);
+    if (!participant) return;
+    const participants = new Map(this.snapshot.participants);
+    participants.set(id, { ...participant, ...patch(participant) });
+    this.update({ participants });
+  }
+
+  /* ─── Lifecycle ──────────────────────────────────────────────────────── */
+
+  /**
+   * Connects, waiting in the waiting room if there is one, then publishes
+   * `stream`. Resolves true once in the call, or false when leave() cancelled
+   * the join first; rejects when joining fails (the stream is then still
+   * the caller's).
+   */
+  public join = async ({
+    signalingUrl,
+    roomId,
+    participantId,
+    stream,
+    micOff = false,
+    cameraOff = false,
+    ...options
+  }: JoinOptions): Promise<boolean> => {
+    if (this.client) throw new Error("Already in a call");
+    const client = new MediasoupClient(
+      signalingUrl,
+      roomId,
+      participantId,
+      options,
+    );
+    this.client = client;
+    this.listen(client);
+    this.update({ ...IDLE, client, participantId });
+
+    try {
+      await client.connect();
+      const videoTrack = stream?.getVideoTracks()[0];
+      const audioTrack = stream?.getAudioTracks()[0];
+      if (videoTrack) await client.produceTrack(videoTrack);
+      if (audioTrack) await client.produceTrack(audioTrack);
+      if (videoTrack && cameraOff) await client.pauseProducer("video");
+      if (audioTrack && micOff) await client.pauseProducer("audio");
+      if (this.client !== client) return false;
+      this.updateLocal({
+        stream,
+        micMuted: micOff || !audioTrack,
+        cameraOff: cameraOff || !videoTrack,
+      });
+      this.update({ inCall: true });
+      return true;
+    } catch (error) {
+      if (this.client !== client) return false;
+      this.teardown();
+      throw error;
+    }
+  };
+
+  /** Hangs up and stops our tracks. Safe to call at any time. */
+  public leave = (): void => {
+    const { stream, screenTrack } = this.snapshot.local;
+    if (!this.client && !stream && !screenTrack) return;
+    stream?.getTracks().forEach((t) => t.stop());
+    screenTrack?.stop();
+    this.teardown();
+  };
+
+  // Back to idle, keeping why the call ended.
+  private teardown(): void {
+    const client = this.client;
+    this.client = null;
+    client?.disconnect();
+    this.update({ ...IDLE, ended: this.snapshot.ended });
+  }
+
+  private listen(client: MediasoupClient): void {
+    client.on("connectionStateChanged", (connectionState) =>
+      this.update({ connectionState }),
+    );
+
+    client.on("reconnecting", ({ attempt }) =>
+      this.update({ reconnectAttempt: attempt }),
+    );
+
+    client.on("joined", ({ role, locked, waitingRoom }) =>
+      this.update({ role, locked: !!locked, waitingRoom: !!waitingRoom }),
+    );
+
+    client.on("participantJoined", (id, identity) => {
+      console.log(`Participant ${id} joined`);
+      this.updateParticipant(
+        id,
+        (participant) => ({ identity: identity ?? participant.identity }),
+        true,
+      );
+    });
+
+    client.on("participantLeft", (id) => {
+      console.log(`Participant ${id} left`);
+      const participants = new Map(this.snapshot.participants);
+      participants.delete(id);
+      const recorders = new Set(this.snapshot.recorders);
+      recorders.delete(id);
+      this.update({ participants, recorders });
+    });
+
+    client.on("newProducer", async (producer) => {
+      console.log(
+        `New producer from ${producer.participantId}: ${producer.kind}`,
+      );
+      const track = await client.consumeTrack(
+        producer.participantId,
+        producer.producerId,
+        producer.appData?.source,
+      );
+      if (!track || this.client !== client) return;
+      const slot = trackSlot(producer);
+      this.updateParticipant(
+        producer.participantId,
+        () => ({
+          [slot]: track,
+          [PRODUCER_ID_OF[slot]]: producer.producerId,
+          ...(slot === "videoTrack"
+            ? { videoOff: !!producer.paused, videoPaused: false }
+            : slot === "audioTrack"
+              ? { audioMuted: !!producer.paused }
+              : {}),
+        }),
+        true,
+      );
+    });
+
+    const setRemotePaused = (paused: boolean) => (producer: ProducerInfo) => {
+      if (trackSlot(producer) === "screenTrack") return;
+      this.updateParticipant(producer.participantId, () =>
+        producer.kind === "audio"
+          ? { audioMuted: paused }
+          : { videoOff: paused },
+      );
+    };
+    client.on("producerPaused", setRemotePaused(true));
+    client.on("producerResumed", setRemotePaused(false));
+
+    // The producer or just our consumer of it is gone: drop the dead track.
+    const clearTrack = ({ participantId, producerId }: ConsumerInfo) =>
+      this.updateParticipant(participantId, (participant) => {
+        const slot = slotOfProducer(participant, producerId);
+        if (!slot) return {};
+        return {
+          [slot]: undefined,
+          [PRODUCER_ID_OF[slot]]: undefined,
+          ...(slot === "videoTrack"
+            ? { videoPaused: false, videoLayers: undefined }
+            : {}),
+        };
+      });
+    client.on("producerClosed", clearTrack);
+    client.on("consumerClosed", clearTrack);
+
+    const setConsumerPaused =
+      (paused: boolean) =>
+      ({ participantId, producerId }: ConsumerInfo) =>
+        this.updateParticipant(participantId, (participant) =>
+          participant.videoProducerId === producerId
+            ? { videoPaused: paused }
+            : {},
+        );
+    client.on("consumerPaused", setConsumerPaused(true));
+    client.on("consumerResumed", setConsumerPaused(false));
+
+    client.on(
+      "consumerLayersChanged",
+      ({ participantId, producerId, layers }) =>
+        this.updateParticipant(participantId, (participant) =>
+          participant.videoProducerId === producerId
+            ? { videoLayers: layers, videoPaused: layers === null }
+            : {},
+        ),
+    );
+
+    client.on("recordingStateChanged", ({ participantId, state }) => {
+      if (participantId === this.snapshot.participantId) return;
+      const recorders = new Set(this.snapshot.recorders);
+      if (state === "stopped") recorders.delete(participantId);
+      else recorders.add(participantId);
+      this.update({ recorders });
+    });
+
+    client.on("roomLockChanged", ({ locked }) => this.update({ locked }));
+    client.on("waitingRoomChanged", ({ enabled }) =>
+      this.update({ waitingRoom: enabled }),
+    );
+    client.on("knock", (waiting) => this.update({ waiting }));
+    client.on("raisedHands", (raisedHands) => this.update({ raisedHands }));
+
+    // Our own producers, changed behind our back.
+    client.on("trackReplaced", ({ track, previous }) =>
+      this.swapLocalTrack(track, previous),
+    );
+    client.on("forceMuted", ({ kind }) =>
+      this.updateLocal(
+        kind === "audio" ? { micMuted: true } : { cameraOff: true },
+      ),
+    );
+
+    client.on("denied", ({ reason }) =>
+      this.update({ ended: { cause: "denied", reason } }),
+    );
+    client.on("kicked", ({ reason }) => {
+      this.update({ ended: { cause: "kicked", reason } });
+      this.leave();
+    });
+  }
+
+  /* ─── Local media ────────────────────────────────────────────────────── */
+
+  /** Mutes or unmutes the mic, or turns the camera off or on. */
+  public toggleMedia = async (kind: MediaKind): Promise<void> => {
+    const client = this.client;
+    if (!client) return;
+    const off = !client.isProducerPaused(kind);
+    if (off) await client.pauseProducer(kind);
+    else await client.resumeProducer(kind);
+    this.updateLocal(kind === "audio" ? { micMuted: off } : { cameraOff: off });
+  };
+
+  /**
+   * Publishes `track` in place of the current mic or camera, e.g. after
+   * picking another device, and stops the old one.
+   */
+  public replaceTrack = async (
+    kind: MediaKind,
+    track: MediaStreamTrack,
+  ): Promise<void> => {
+    const client = this.client;
+    if (!client) return;
+    const { stream } = this.snapshot.local;
+    const previous =
+      kind === "video"
+        ? stream?.getVideoTracks()[0]
+        : stream?.getAudioTracks()[0];
+    await client.replaceTrack(kind, track);
+    this.swapLocalTrack(track, previous);
+    this.updateLocal(
+      kind === "audio"
+        ? { micMuted: client.isProducerPaused("audio") }
+        : { cameraOff: client.isProducerPaused("video") },
+    );
+  };
+
+  // Always a new MediaStream, so video elements notice and re-attach.
+  private swapLocalTrack(
+    track: MediaStreamTrack,
+    previous?: MediaStreamTrack,
+  ): void {
+    const others =
+      this.snapshot.local.stream
+        ?.getTracks()
+        .filter((t) => t.kind !== track.kind) ?? [];
+    this.updateLocal({ stream: new MediaStream([...others, track]) });
+    previous?.stop();
+  }
+
+  /** Publishes a screen capture track until stopScreenShare() or it ends. */
+  public shareScreen = async (track: MediaStreamTrack): Promise<void> => {
+    const client = this.client;
+    if (!client) {
+      track.stop();
+      return;
+    }
+    // Fired when the browser's own "Stop sharing" button is used.
+    const onEnded = () => this.stopScreenShare(track);
+    track.addEventListener("ended", onEnded);
+    try {
+      await client.produceTrack(track, "screen");
+    } catch (error) {
+      // nothing would ever stop the capture otherwise
+      track.removeEventListener("ended", onEnded);
+      track.stop();
+      throw error;
+    }
+    // Stopped from the browser while we were publishing, when there was no
+    // producer for onEnded to close yet.
+    if (track.readyState !== "live") {
+      track.removeEventListener("ended", onEnded);
+      await client.closeProducer("screen");
+      return;
+    }
+    this.updateLocal({ screenTrack: track });
+  };
+
+  /** Stops the screen share (only if it is still `track`, when given). */
+  public stopScreenShare = (track?: MediaStreamTrack): void => {
+    const { screenTrack } = this.snapshot.local;
+    if (!screenTrack || (track && track !== screenTrack)) return;
+    screenTrack.stop();
+    this.updateLocal({ screenTrack: null });
+    this.client
+      ?.closeProducer("screen")
+      .catch((error) => console.error("Error stopping screen share:", error));
+  };
+}
@@ -0,0 +1,593 @@
+import type {
+  DtlsParameters,
+  IceParameters,
+  MediaKind,
+  RtpCapabilities,
+  RtpParameters,
+  SctpCapabilities,
+  SctpStreamParameters,
+  TransportOptions,
+} from "mediasoup-client/types";
+
+/* ─── Shared payloads ────────────────────────────────────────────────────── */
+export type ProducerSource = "microphone" | "camera" | "screen";
+
+// Attached to every producer so receivers can tell a screen share apart
+// from the webcam (both are plain "video" to mediasoup).
+export type ProducerAppData = {
+  source: ProducerSource;
+};
+
+export interface ConsumerLayers {
+  spatialLayer: number;
+  temporalLayer?: number;
+}
+
+export interface ProducerInfo {
+  participantId: string;
+  producerId: string;
+  kind: MediaKind;
+  paused?: boolean;
+  // older servers don't echo appData; treat a missing one as mic/camera
+  appData?: ProducerAppData;
+}
+
+export interface ConsumedData {
+  id: string;
+  producerId: string;
+  kind: MediaKind;
+  rtpParameters: RtpParameters;
+}
+
+// Data channels carry chat today; the label says what a channel is for.
+export type DataChannelLabel = "chat";
+
+export interface DataProducerInfo {
+  participantId: string;
+  dataProducerId: string;
+  label: DataChannelLabel;
+}
+
+export interface ConsumedDataChannel {
+  id: string;
+  dataProducerId: string;
+  sctpStreamParameters: SctpStreamParameters;
+  label: DataChannelLabel;
+  protocol?: string;
+}
+
+// Hosts get moderation rights; everyone else is a guest.
+export type ParticipantRole = "host" | "guest";
+
+// Who a participant is, as vouched for by their room token.
+export interface ParticipantIdentity {
+  participantId: string;
+  displayName: string;
+  avatarUrl?: string;
+  role: ParticipantRole;
+}
+
+// What a participant's local recorder is doing, so everyone can be told.
+export type RecordingState = "recording" | "paused" | "stopped";
+
+export interface ChatMessage {
+  participantId: string;
+  text: string;
+  // sender's clock, ms since epoch
+  sentAt: number;
+  // made by the sender, so a message arriving over both the data channel
+  // and signaling is shown once; older clients don't send one
+  id?: string;
+}
+
+// Someone with their hand up. The server keeps these in a queue, first
+// raised first, so hosts can take questions in order.
+export interface RaisedHand {
+  participantId: string;
+  // server clock, ms since epoch
+  raisedAt: number;
+}
+
+// Short-lived, non-verbal signals. Hands live on the server until lowered;
+// reactions are relayed once and forgotten.
+export type RoomSignal =
+  | { kind: "raiseHand" }
+  // our own hand when no target is given; hosts may lower anyone's
+  | { kind: "lowerHand"; targetParticipantId?: string }
+  // hosts only
+  | { kind: "clearHands" }
+  | { kind: "reaction"; emoji: string };
+
+// The reactions on offer; anything else another client relays is dropped.
+export const REACTION_EMOJIS = ["👍", "👏", "😂", "🎉", "❤️", "😮"];
+
+/* ─── Client → server ────────────────────────────────────────────────────── */
+export type ClientMessage =
+  | {
+      type: "join";
+      roomId: string;
+      participantId: string;
+      // signed room token; the server takes identity and role from it
+      token?: string;
+    }
+  | { type: "getRtpCapabilities"; roomId: string }
+  | {
+      type: "createProducerTransport";
+      roomId: string;
+      participantId: string;
+      // omitted when the browser can't do SCTP; the server then skips it too
+      sctpCapabilities?: SctpCapabilities;
+    }
+  | {
+      type: "connectProducerTransport";
+      roomId: string;
+      participantId: string;
+      transportId: string;
+      dtlsParameters: DtlsParameters;
+    }
+  | {
+      type: "produce";
+      roomId: string;
+      participantId: string;
+      transportId: string;
+      kind: MediaKind;
+      rtpParameters: RtpParameters;
+      appData: ProducerAppData;
+    }
+  | {
+      type: "createConsumerTransport";
+      roomId: string;
+      participantId: string;
+      sctpCapabilities?: SctpCapabilities;
+    }
+  | {
+      type: "connectConsumerTransport";
+      roomId: string;
+      participantId: string;
+      transportId: string;
+      dtlsParameters: DtlsParameters;
+    }
+  | {
+      type: "consume";
+      roomId: string;
+      participantId: string;
+      transportId: string;
+      producerParticipantId: string;
+      producerId: string;
+      rtpCapabilities: RtpCapabilities;
+    }
+  | {
+      type: "restartIce";
+      roomId: string;
+      participantId: string;
+      transportId: string;
+    }
+  | {
+      type: "closeProducer";
+      roomId: string;
+      participantId: string;
+      producerId: string;
+    }
+  | {
+      type: "setConsumerPreferredLayers";
+      roomId: string;
+      participantId: string;
+      consumerId: string;
+      spatialLayer: number;
+      temporalLayer?: number;
+    }
+  | {
+      type: "pauseProducer";
+      roomId: string;
+      participantId: string;
+      producerId: string;
+    }
+  | {
+      type: "resumeProducer";
+      roomId: string;
+      participantId: string;
+      producerId: string;
+    }
+  | {
+      // stops forwarding until resumeConsumer, e.g. for a tile off screen
+      type: "pauseConsumer";
+      roomId: string;
+      participantId: string;
+      consumerId: string;
+    }
+  | {
+      type: "resumeConsumer";
+      roomId: string;
+      participantId: string;
+      consumerId: string;
+    }
+  | {
+      type: "produceData";
+      roomId: string;
+      participantId: string;
+      transportId: string;
+      sctpStreamParameters: SctpStreamParameters;
+      label: DataChannelLabel;
+      protocol?: string;
+    }
+  | {
+      type: "consumeData";
+      roomId: string;
+      participantId: string;
+      transportId: string;
+      producerParticipantId: string;
+      dataProducerId: string;
+    }
+  | {
+      type: "setRecordingState";
+      roomId: string;
+      participantId: string;
+      state: RecordingState;
+    }
+  | {
+      // hand-raising and reactions; see RoomSignal
+      type: "roomSignal";
+      roomId: string;
+      participantId: string;
+      signal: RoomSignal;
+    }
+  // Host moderation; the server rejects these from guests.
+  | {
+      // pauses the target's producer of `kind`; they can unmute themselves
+      type: "requestMute";
+      roomId: string;
+      participantId: string;
+      targetParticipantId: string;
+      kind: MediaKind;
+    }
+  | {
+      // closes the target's mic/camera producers (all of them if no kind)
+      type: "closeParticipantProducers";
+      roomId: string;
+      participantId: string;
+      targetParticipantId: string;
+      kind?: MediaKind;
+    }
+  | {
+      type: "kickParticipant";
+      roomId: string;
+      participantId: string;
+      targetParticipantId: string;
+      reason?: string;
+    }
+  | {
+      // a locked room turns away new joins
+      type: "setRoomLocked";
+      roomId: string;
+      participantId: string;
+      locked: boolean;
+    }
+  | {
+      // with the waiting room on, newcomers wait until a host admits them
+      type: "setWaitingRoom";
+      roomId: string;
+      participantId: string;
+      enabled: boolean;
+    }
+  | {
+      // everyone waiting when no ids are given
+      type: "admitParticipants";
+      roomId: string;
+      participantId: string;
+      targetParticipantIds?: string[];
+    }
+  | {
+      type: "denyParticipants";
+      roomId: string;
+      participantId: string;
+      targetParticipantIds?: string[];
+      reason?: string;
+    }
+  // Chat relayed by the server. Sent even when our data channel carried
+  // the message too, for everyone who doesn't consume that channel.
+  | {
+      type: "chatMessage";
+      roomId: string;
+      participantId: string;
+      text: string;
+      sentAt: number;
+      id?: string;
+    };
+
+/* ─── Server → client: replies (echo the request's requestId) ───────────── */
+export interface JoinedMessage {
+  type: "joined";
+  // everyone already in the room
+  participants?: ParticipantIdentity[];
+  // ours, as the server sees it
+  role?: ParticipantRole;
+  locked?: boolean;
+  waitingRoom?: boolean;
+  // who is waiting to be admitted; only sent to hosts
+  waiting?: ParticipantIdentity[];
+  existingProducers?: ProducerInfo[];
+  existingDataProducers?: DataProducerInfo[];
+  // participants whose recording is in progress (or paused)
+  recordingParticipants?: string[];
+  raisedHands?: RaisedHand[];
+}
+// The reply to join while a waiting room holds us. Once a host decides we
+// get `admitted` (join again) or `denied`.
+export interface WaitingMessage {
+  type: "waiting";
+}
+export interface RtpCapabilitiesMessage {
+  type: "rtpCapabilities";
+  data: RtpCapabilities;
+}
+export interface ProducerTransportCreatedMessage {
+  type: "producerTransportCreated";
+  data: TransportOptions;
+}
+export interface ProducerTransportConnectedMessage {
+  type: "producerTransportConnected";
+}
+export interface ProducedMessage {
+  type: "produced";
+  id: string;
+}
+export interface ConsumerTransportCreatedMessage {
+  type: "consumerTransportCreated";
+  data: TransportOptions;
+}
+export interface ConsumerTransportConnectedMessage {
+  type: "consumerTransportConnected";
+}
+export interface ConsumedMessage {
+  type: "consumed";
+  data: ConsumedData;
+}
+export interface IceRestartedMessage {
+  type: "iceRestarted";
+  iceParameters: IceParameters;
+}
+export interface ConsumerPreferredLayersSetMessage {
+  type: "consumerPreferredLayersSet";
+  consumerId: string;
+}
+export interface DataProducedMessage {
+  type: "dataProduced";
+  id: string;
+}
+export interface DataConsumedMessage {
+  type: "dataConsumed";
+  data: ConsumedDataChannel;
+}
+export interface ChatMessageSentMessage {
+  type: "chatMessageSent";
+}
+export interface RoomSignalSentMessage {
+  type: "roomSignalSent";
+}
+export interface MuteRequestedMessage {
+  type: "muteRequested";
+  targetParticipantId: string;
+}
+export interface ParticipantProducersClosedMessage {
+  type: "participantProducersClosed";
+  targetParticipantId: string;
+}
+export interface ParticipantKickedMessage {
+  type: "participantKicked";
+  targetParticipantId: string;
+}
+export interface ParticipantsAdmittedMessage {
+  type: "participantsAdmitted";
+  participantIds: string[];
+}
+export interface ParticipantsDeniedMessage {
+  type: "participantsDenied";
+  participantIds: string[];
+}
+export interface ErrorMessage {
+  type: "error";
+  message: string;
+}
+
+/* ─── Server → client: pushes (no requestId) ────────────────────────────── */
+export interface ParticipantJoinedMessage {
+  type: "participantJoined";
+  participantId: string;
+  // missing from servers that don't authenticate
+  identity?: ParticipantIdentity;
+}
+export interface NewProducerMessage extends ProducerInfo {
+  type: "newProducer";
+}
+// Sent as the reply to pause/resumeProducer and pushed to everyone else.
+export interface ProducerPausedMessage extends ProducerInfo {
+  type: "producerPaused";
+}
+export interface ProducerResumedMessage extends ProducerInfo {
+  type: "producerResumed";
+}
+// Sent as the reply to closeProducer and pushed to everyone else.
+export interface ProducerClosedMessage extends ProducerInfo {
+  type: "producerClosed";
+}
+// Consumer pushes name both ids; we track consumers by producer id.
+// consumerClosed: the server dropped the consumer (producer gone, transport
+// closed, ...). consumerPaused/Resumed: the server stopped or restarted
+// forwarding. consumerPaused/Resumed are also the replies to
+// pauseConsumer/resumeConsumer.
+export interface ConsumerClosedMessage {
+  type: "consumerClosed";
+  consumerId: string;
+  producerId: string;
+}
+export interface ConsumerPausedMessage {
+  type: "consumerPaused";
+  consumerId: string;
+  producerId: string;
+}
+export interface ConsumerResumedMessage {
+  type: "consumerResumed";
+  consumerId: string;
+  producerId: string;
+}
+// The layers the server is actually forwarding; null when none (e.g. the
+// link can't carry even the lowest one).
+export interface ConsumerLayersChangedMessage {
+  type: "consumerLayersChanged";
+  consumerId: string;
+  producerId: string;
+  layers: ConsumerLayers | null;
+}
+export interface NewDataProducerMessage extends DataProducerInfo {
+  type: "newDataProducer";
+}
+// Relayed chat pushed to everyone but the sender.
+export interface ChatMessagePush extends ChatMessage {
+  type: "chatMessage";
+}
+// Relayed reactions, pushed to everyone but the sender.
+export interface RoomSignalPush {
+  type: "roomSignal";
+  participantId: string;
+  signal: RoomSignal;
+}
+// To everyone (the sender included) whenever the queue of raised hands
+// changes; the full queue each time, in raise order.
+export interface RaisedHandsMessage {
+  type: "raisedHands";
+  raisedHands: RaisedHand[];
+}
+// Sent as the reply to setRecordingState and pushed to everyone else.
+export interface RecordingStateChangedMessage {
+  type: "recordingStateChanged";
+  participantId: string;
+  state: RecordingState;
+}
+// To the target of requestMute / closeParticipantProducers. With `closed`
+// the producer is gone and has to be produced again to unmute.
+export interface ForceMutedMessage {
+  type: "forceMuted";
+  kind: MediaKind;
+  closed: boolean;
+  byParticipantId: string;
+}
+// To the target of kickParticipant, right before the server hangs up.
+export interface KickedMessage {
+  type: "kicked";
+  byParticipantId: string;
+  reason?: string;
+}
+// Sent as the reply to setRoomLocked and pushed to everyone else.
+export interface RoomLockChangedMessage {
+  type: "roomLockChanged";
+  locked: boolean;
+  byParticipantId: string;
+}
+// Sent as the reply to setWaitingRoom and pushed to everyone else.
+export interface WaitingRoomChangedMessage {
+  type: "waitingRoomChanged";
+  enabled: boolean;
+  byParticipantId: string;
+}
+// To hosts whenever the waiting list changes; the full list each time.
+export interface KnockMessage {
+  type: "knock";
+  waiting: ParticipantIdentity[];
+}
+// To a waiting participant: a host let them in, so join again.
+export interface AdmittedMessage {
+  type: "admitted";
+}
+// To a waiting participant, right before the server hangs up.
+export interface DeniedMessage {
+  type: "denied";
+  reason?: string;
+}
+export interface ParticipantLeftMessage {
+  type: "participantLeft";
+  participantId: string;
+}
+
+export type ServerMessage = (
+  | JoinedMessage
+  | WaitingMessage
+  | RtpCapabilitiesMessage
+  | ProducerTransportCreatedMessage
+  | ProducerTransportConnectedMessage
+  | ProducedMessage
+  | ConsumerTransportCreatedMessage
+  | ConsumerTransportConnectedMessage
+  | ConsumedMessage
+  | IceRestartedMessage
+  | ConsumerPreferredLayersSetMessage
+  | DataProducedMessage
+  | DataConsumedMessage
+  | ChatMessageSentMessage
+  | RoomSignalSentMessage
+  | MuteRequestedMessage
+  | ParticipantProducersClosedMessage
+  | ParticipantKickedMessage
+  | ParticipantsAdmittedMessage
+  | ParticipantsDeniedMessage
+  | ErrorMessage
+  | ParticipantJoinedMessage
+  | NewProducerMessage
+  | ProducerPausedMessage
+  | ProducerResumedMessage
+  | ProducerClosedMessage
+  | ConsumerClosedMessage
+  | ConsumerPausedMessage
+  | ConsumerResumedMessage
+  | ConsumerLayersChangedMessage
+  | NewDataProducerMessage
+  | ChatMessagePush
+  | RoomSignalPush
+  | RaisedHandsMessage
+  | RecordingStateChangedMessage
+  | ForceMutedMessage
+  | KickedMessage
+  | RoomLockChangedMessage
+  | WaitingRoomChangedMessage
+  | KnockMessage
+  | AdmittedMessage
+  | DeniedMessage
+  | ParticipantLeftMessage
+) & { requestId?: number };
+
+/* ─── Request → reply correlation ────────────────────────────────────────── */
+export interface SignalingResponses {
+  join: JoinedMessage | WaitingMessage;
+  getRtpCapabilities: RtpCapabilitiesMessage;
+  createProducerTransport: ProducerTransportCreatedMessage;
+  connectProducerTransport: ProducerTransportConnectedMessage;
+  produce: ProducedMessage;
+  createConsumerTransport: ConsumerTransportCreatedMessage;
+  connectConsumerTransport: ConsumerTransportConnectedMessage;
+  consume: ConsumedMessage;
+  restartIce: IceRestartedMessage;
+  closeProducer: ProducerClosedMessage;
+  setConsumerPreferredLayers: ConsumerPreferredLayersSetMessage;
+  pauseProducer: ProducerPausedMessage;
+  resumeProducer: ProducerResumedMessage;
+  pauseConsumer: ConsumerPausedMessage;
+  resumeConsumer: ConsumerResumedMessage;
+  produceData: DataProducedMessage;
+  consumeData: DataConsumedMessage;
+  chatMessage: ChatMessageSentMessage;
+  roomSignal: RoomSignalSentMessage;
+  setRecordingState: RecordingStateChangedMessage;
+  requestMute: MuteRequestedMessage;
+  closeParticipantProducers: ParticipantProducersClosedMessage;
+  kickParticipant: ParticipantKickedMessage;
+  setRoomLocked: RoomLockChangedMessage;
+  setWaitingRoom: WaitingRoomChangedMessage;
+  admitParticipants: ParticipantsAdmittedMessage;
+  denyParticipants: ParticipantsDeniedMessage;
+}
+
+export type RequestType = keyof SignalingResponses;
+export type RequestMessage<T extends RequestType> = Extract<
+  ClientMessage,
+  { type: T }
+>;
+export type ResponseMessage<T extends RequestType> = SignalingResponses[T];
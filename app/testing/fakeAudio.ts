@@ -0,0 +1,107 @@
+import { fakeTrack } from "./fakeMediasoup";
+
+/* ─── In-memory stand-ins for Web Audio ─────────────────────────────────────
+   Nodes only remember what they are connected to, so a test can read back
+   the graph an AudioProcessor wired up. Stub the constructors below as
+   globals, and mock @sapphi-red/web-noise-suppressor with the worklet nodes.
+─────────────────────────────────────────────────────────────────────────── */
+
+export class FakeAudioNode {
+  public outputs: FakeAudioNode[] = [];
+  public destroyed = false;
+
+  constructor(public readonly name: string) {}
+
+  public connect(to: FakeAudioNode): FakeAudioNode {
+    this.outputs.push(to);
+    return to;
+  }
+
+  public disconnect(): void {
+    this.outputs = [];
+  }
+
+  public destroy(): void {
+    this.destroyed = true;
+  }
+}
+
+export class FakeAudioContext {
+  public static instances: FakeAudioContext[] = [];
+  // addModule rejects for worklet URLs containing this
+  public static failingModule?: string;
+
+  public static get latest(): FakeAudioContext {
+    const context = FakeAudioContext.instances.at(-1);
+    if (!context) throw new Error("No AudioContext created yet");
+    return context;
+  }
+
+  public state: AudioContextState = "suspended";
+  public source?: FakeAudioNode;
+  public readonly audioWorklet = {
+    addModule: async (url: string) => {
+      const failing = FakeAudioContext.failingModule;
+      if (failing && url.includes(failing)) {
+        throw new Error(`Failed to load ${url}`);
+      }
+    },
+  };
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  public createMediaStreamSource(): FakeAudioNode {
+    this.source = new FakeAudioNode("source");
+    return this.source;
+  }
+
+  public createMediaStreamDestination(): FakeAudioNode {
+    const track = fakeTrack("audio");
+    return Object.assign(new FakeAudioNode("destination"), {
+      stream: { getAudioTracks: () => [track] },
+    });
+  }
+
+  public async resume(): Promise<void> {
+    if (this.state !== "closed") this.state = "running";
+  }
+
+  public async close(): Promise<void> {
+    this.state = "closed";
+  }
+
+  /** Names of the nodes from the current source to wherever it ends. */
+  public chain(): string[] {
+    const names: string[] = [];
+    for (let node = this.source; node; node = node.outputs[0]) {
+      names.push(node.name);
+    }
+    return names;
+  }
+}
+
+export class FakeCompressorNode extends FakeAudioNode {
+  constructor() {
+    super("compressor");
+  }
+}
+
+export class FakeGainNode extends FakeAudioNode {
+  constructor() {
+    super("gain");
+  }
+}
+
+export class FakeRnnoiseNode extends FakeAudioNode {
+  constructor() {
+    super("rnnoise");
+  }
+}
+
+export class FakeNoiseGateNode extends FakeAudioNode {
+  constructor() {
+    super("gate");
+  }
+}
@@ -0,0 +1,347 @@
+import type {
+  DtlsParameters,
+  MediaKind,
+  RtpCapabilities,
+  RtpCodecCapability,
+  RtpEncodingParameters,
+  SctpCapabilities,
+  TransportOptions,
+} from "mediasoup-client/types";
+
+/* ─── In-memory stand-ins for mediasoup-client ──────────────────────────────
+   Just enough of Device/Transport/Producer/Consumer for MediasoupClient to
+   run under Node: no RTCPeerConnection, but the same "connect" / "produce" /
+   "producedata" callbacks the real transports raise, so every signaling
+   round trip still happens.
+─────────────────────────────────────────────────────────────────────────── */
+
+// Transports hand their listeners (params, callback, errback); the exact
+// signature depends on the event.
+type Listener = (...args: never[]) => unknown;
+type AppData = Record<string, unknown>;
+
+const FAKE_DTLS: DtlsParameters = {
+  role: "client",
+  fingerprints: [{ algorithm: "sha-256", value: "00:11:22:33" }],
+};
+
+/** A live, unmuted track that never carries media. */
+export function fakeTrack(kind: MediaKind): MediaStreamTrack {
+  const track = {
+    id: `${kind}-track-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    label: `fake ${kind}`,
+    enabled: true,
+    muted: false,
+    readyState: "live",
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    getSettings: () => ({}),
+    stop: () => {
+      track.readyState = "ended";
+    },
+  };
+  return track as unknown as MediaStreamTrack;
+}
+
+const emptyStats = async () => new Map() as unknown as RTCStatsReport;
+
+export class FakeProducer {
+  public paused: boolean;
+  public closed = false;
+  // as passed to produce
+  public encodings?: RtpEncodingParameters[];
+  public codec?: RtpCodecCapability;
+
+  constructor(
+    public readonly id: string,
+    public track: MediaStreamTrack,
+    public readonly appData: AppData,
+  ) {
+    // like disableTrackOnPause: a disabled track makes a paused producer
+    this.paused = !track.enabled;
+  }
+
+  public get kind(): MediaKind {
+    return this.track.kind as MediaKind;
+  }
+
+  public pause(): void {
+    this.paused = true;
+    this.track.enabled = false;
+  }
+
+  public resume(): void {
+    this.paused = false;
+    this.track.enabled = true;
+  }
+
+  public async replaceTrack({
+    track,
+  }: {
+    track: MediaStreamTrack;
+  }): Promise<void> {
+    this.track = track;
+  }
+
+  public close(): void {
+    this.closed = true;
+  }
+
+  public getStats = emptyStats;
+}
+
+export class FakeConsumer {
+  public readonly track: MediaStreamTrack;
+  public paused = false;
+  public closed = false;
+
+  constructor(
+    public readonly id: string,
+    public readonly producerId: string,
+    public readonly kind: MediaKind,
+    public readonly appData: AppData,
+  ) {
+    this.track = fakeTrack(kind);
+  }
+
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+  }
+
+  public close(): void {
+    this.closed = true;
+  }
+
+  public getStats = emptyStats;
+}
+
+export class FakeDataProducer {
+  public readyState: RTCDataChannelState = "open";
+  public readonly sent: string[] = [];
+
+  constructor(
+    public readonly id: string,
+    public readonly label: string,
+  ) {}
+
+  public send(data: string): void {
+    this.sent.push(data);
+  }
+
+  public close(): void {
+    this.readyState = "closed";
+  }
+}
+
+export class FakeDataConsumer {
+  public closed = false;
+  private listeners = new Map<string, Listener>();
+
+  constructor(
+    public readonly id: string,
+    public readonly dataProducerId: string,
+    public readonly appData: AppData,
+  ) {}
+
+  public on(event: string, listener: Listener): void {
+    this.listeners.set(event, listener);
+  }
+
+  /** Delivers a message as if it arrived on the channel. */
+  public receive(data: string): void {
+    (this.listeners.get("message") as ((data: string) => void) | undefined)?.(
+      data,
+    );
+  }
+
+  public close(): void {
+    this.closed = true;
+  }
+}
+
+export class FakeTransport {
+  public readonly id: string;
+  public closed = false;
+  public connectionState: RTCPeerConnectionState = "new";
+  public iceRestarts = 0;
+  public readonly producers: FakeProducer[] = [];
+  public readonly consumers: FakeConsumer[] = [];
+  public readonly dataProducers: FakeDataProducer[] = [];
+  public readonly dataConsumers: FakeDataConsumer[] = [];
+  private listeners = new Map<string, Listener>();
+  private connecting?: Promise<void>;
+
+  constructor(
+    public readonly direction: "send" | "recv",
+    public readonly options: TransportOptions,
+  ) {
+    this.id = options.id;
+  }
+
+  public on(event: string, listener: Listener): void {
+    this.listeners.set(event, listener);
+  }
+
+  // Raises an app-handled event and waits for its callback/errback.
+  private raise<T>(event: string, params: unknown): Promise<T> {
+    const listener = this.listeners.get(event) as
+      | ((
+          params: unknown,
+          callback: (result: T) => void,
+          errback: (error: Error) => void,
+        ) => void)
+      | undefined;
+    if (!listener) {
+      return Promise.reject(new Error(`No "${event}" listener`));
+    }
+    return new Promise<T>((resolve, reject) =>
+      listener(params, resolve, reject),
+    );
+  }
+
+  // Like the real thing, the first produce/consume connects the transport.
+  private async connect(): Promise<void> {
+    if (this.closed) throw new Error("Transport closed");
+    this.connecting ??= this.raise<void>("connect", {
+      dtlsParameters: FAKE_DTLS,
+    }).then(() => {
+      this.connectionState = "connected";
+    });
+    await this.connecting;
+  }
+
+  public async produce({
+    track,
+    appData = {},
+    encodings,
+    codec,
+  }: {
+    track: MediaStreamTrack;
+    appData?: AppData;
+    encodings?: RtpEncodingParameters[];
+    codec?: RtpCodecCapability;
+  }): Promise<FakeProducer> {
+    await this.connect();
+    const { id } = await this.raise<{ id: string }>("produce", {
+      kind: track.kind,
+      rtpParameters: { codecs: [] },
+      appData,
+    });
+    const producer = new FakeProducer(id, track, appData);
+    producer.encodings = encodings;
+    producer.codec = codec;
+    this.producers.push(producer);
+    return producer;
+  }
+
+  public async produceData({
+    label = "",
+    protocol = "",
+  }: {
+    label?: string;
+    protocol?: string;
+  }): Promise<FakeDataProducer> {
+    await this.connect();
+    const { id } = await this.raise<{ id: string }>("producedata", {
+      sctpStreamParameters: { streamId: 0, ordered: true },
+      label,
+      protocol,
+    });
+    const dataProducer = new FakeDataProducer(id, label);
+    this.dataProducers.push(dataProducer);
+    return dataProducer;
+  }
+
+  public async consume({
+    id,
+    producerId,
+    kind,
+    appData = {},
+  }: {
+    id: string;
+    producerId: string;
+    kind: MediaKind;
+    appData?: AppData;
+  }): Promise<FakeConsumer> {
+    await this.connect();
+    const consumer = new FakeConsumer(id, producerId, kind, appData);
+    this.consumers.push(consumer);
+    return consumer;
+  }
+
+  public async consumeData({
+    id,
+    dataProducerId,
+    appData = {},
+  }: {
+    id: string;
+    dataProducerId: string;
+    appData?: AppData;
+  }): Promise<FakeDataConsumer> {
+    await this.connect();
+    const dataConsumer = new FakeDataConsumer(id, dataProducerId, appData);
+    this.dataConsumers.push(dataConsumer);
+    return dataConsumer;
+  }
+
+  public async restartIce(): Promise<void> {
+    this.iceRestarts++;
+  }
+
+  public close(): void {
+    this.closed = true;
+    this.connectionState = "closed";
+  }
+
+  public getStats = emptyStats;
+}
+
+export class FakeDevice {
+  // every device MediasoupClient created, oldest first
+  public static instances: FakeDevice[] = [];
+
+  public loaded = false;
+  public rtpCapabilities: RtpCapabilities = { codecs: [] };
+  public readonly sctpCapabilities: SctpCapabilities = {
+    numStreams: { OS: 1024, MIS: 1024 },
+  };
+  public readonly transports: FakeTransport[] = [];
+
+  public static get latest(): FakeDevice {
+    const device = FakeDevice.instances.at(-1);
+    if (!device) throw new Error("No device created yet");
+    return device;
+  }
+
+  constructor() {
+    FakeDevice.instances.push(this);
+  }
+
+  public async load({
+    routerRtpCapabilities,
+  }: {
+    routerRtpCapabilities: RtpCapabilities;
+  }): Promise<void> {
+    // the real load is async too; callers must not rely on it being sync
+    await Promise.resolve();
+    this.rtpCapabilities = routerRtpCapabilities;
+    this.loaded = true;
+  }
+
+  public createSendTransport(options: TransportOptions): FakeTransport {
+    const transport = new FakeTransport("send", options);
+    this.transports.push(transport);
+    return transport;
+  }
+
+  public createRecvTransport(options: TransportOptions): FakeTransport {
+    const transport = new FakeTransport("recv", options);
+    this.transports.push(transport);
+    return transport;
+  }
+}
@@ -0,0 +1,735 @@
+import type { MediaKind, RtpCapabilities } from "mediasoup-client/types";
+import type {
+  ClientMessage,
+  DataProducerInfo,
+  ParticipantIdentity,
+  ProducerInfo,
+  RaisedHand,
+  RecordingState,
+  RequestType,
+  RoomSignal,
+  ServerMessage,
+} from "../signaling";
+
+/* ─── In-process signaling server ───────────────────────────────────────────
+   Speaks the protocol in signaling.ts over a fake WebSocket, so
+   MediasoupClient can be driven end to end without a network. Every
+   delivery (reply or push) lands on its own macrotask, like real frames.
+   Remote participants are plain records here; only the client under test
+   has a socket.
+─────────────────────────────────────────────────────────────────────────── */
+
+export const ROUTER_RTP_CAPABILITIES: RtpCapabilities = {
+  codecs: [
+    {
+      kind: "audio",
+      mimeType: "audio/opus",
+      preferredPayloadType: 100,
+      clockRate: 48000,
+      channels: 2,
+    },
+    {
+      kind: "video",
+      mimeType: "video/VP8",
+      preferredPayloadType: 101,
+      clockRate: 90000,
+    },
+    {
+      kind: "video",
+      mimeType: "video/VP9",
+      preferredPayloadType: 102,
+      clockRate: 90000,
+    },
+  ],
+  headerExtensions: [],
+};
+
+type Listener = (event: Event) => void;
+
+export class FakeWebSocket {
+  public static readonly CONNECTING = 0;
+  public static readonly OPEN = 1;
+  public static readonly CLOSING = 2;
+  public static readonly CLOSED = 3;
+
+  public readyState = FakeWebSocket.CONNECTING;
+  public participantId?: string;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public onclose: ((event: CloseEvent) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  private listeners: { type: string; listener: Listener; once: boolean }[] = [];
+
+  constructor(
+    public readonly url: string,
+    private readonly server: FakeSignalingServer,
+  ) {
+    server.accept(this);
+  }
+
+  public addEventListener(
+    type: string,
+    listener: Listener,
+    options?: { once?: boolean },
+  ): void {
+    this.listeners.push({ type, listener, once: !!options?.once });
+  }
+
+  public send(data: string): void {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      throw new Error("WebSocket is not open");
+    }
+    this.server.receive(this, JSON.parse(data));
+  }
+
+  public close(): void {
+    if (this.readyState === FakeWebSocket.CLOSED) return;
+    this.readyState = FakeWebSocket.CLOSED;
+    this.server.detach(this);
+    setTimeout(() => this.dispatch("close"), 0);
+  }
+
+  /* server side */
+
+  public open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.dispatch("open");
+  }
+
+  public deliver(message: ServerMessage): void {
+    setTimeout(() => {
+      if (this.readyState !== FakeWebSocket.OPEN) return;
+      this.onmessage?.({ data: JSON.stringify(message) } as MessageEvent);
+    }, 0);
+  }
+
+  private dispatch(type: string): void {
+    const event = { type } as Event;
+    if (type === "close") this.onclose?.(event as CloseEvent);
+    for (const entry of [...this.listeners]) {
+      if (entry.type !== type) continue;
+      if (entry.once) this.listeners.splice(this.listeners.indexOf(entry), 1);
+      entry.listener(event);
+    }
+  }
+}
+
+// A WebSocket constructor, as the client calls it, bound to `server`.
+function socketClassFor(server: FakeSignalingServer): typeof FakeWebSocket {
+  return class extends FakeWebSocket {
+    constructor(url: string) {
+      super(url, server);
+    }
+  };
+}
+
+export class FakeSignalingServer {
+  // everything clients sent, in arrival order
+  public readonly received: ClientMessage[] = [];
+  public readonly sockets: FakeWebSocket[] = [];
+  /** Pass to `vi.stubGlobal("WebSocket", ...)`. */
+  public readonly WebSocket: typeof FakeWebSocket;
+
+  private producers: ProducerInfo[] = [];
+  private dataProducers: DataProducerInfo[] = [];
+  // off: transports come without sctpParameters, so chat uses signaling
+  private sctp = false;
+  // consumer id → producer id
+  private consumers = new Map<string, string>();
+  private participants = new Map<string, FakeWebSocket>();
+  // participants added with addRemote, who have no socket
+  private remotes = new Set<string>();
+  // request types to leave unanswered, or answer with an error
+  private unanswered = new Set<RequestType>();
+  private failures = new Map<RequestType, string>();
+  private hooks = new Map<RequestType, () => void>();
+  private nextId = 1;
+  // the first participant to join hosts the room
+  private hostId?: string;
+  // everyone who ever joined; they may rejoin a locked room
+  private members = new Set<string>();
+  private locked = false;
+  private waitingRoom = false;
+  // participants held in the waiting room; remote ones have no socket
+  private waiting = new Map<string, FakeWebSocket | undefined>();
+  // in raise order
+  private raisedHands: RaisedHand[] = [];
+  // participants recording (or paused)
+  private recorders = new Set<string>();
+
+  constructor() {
+    this.WebSocket = socketClassFor(this);
+  }
+
+  /** Offers data channels on transports created from now on. */
+  public enableDataChannels(): void {
+    this.sctp = true;
+  }
+
+  /** Requests of `type` never get a reply (until the socket closes). */
+  public ignore(type: RequestType): void {
+    this.unanswered.add(type);
+  }
+
+  /** The next request of `type` gets an error reply. */
+  public failNext(type: RequestType, message: string): void {
+    this.failures.set(type, message);
+  }
+
+  /** Runs `hook` right after the reply to the next `type` request is sent. */
+  public after(type: RequestType, hook: () => void): void {
+    this.hooks.set(type, hook);
+  }
+
+  public requests<T extends RequestType>(
+    type: T,
+  ): Extract<ClientMessage, { type: T }>[] {
+    return this.received.filter(
+      (m): m is Extract<ClientMessage, { type: T }> => m.type === type,
+    );
+  }
+
+  /**
+   * Adds a participant (without a socket) publishing one producer per kind,
+   * announcing them to everyone connected. Returns the producers.
+   */
+  public addRemote(participantId: string, kinds: MediaKind[]): ProducerInfo[] {
+    this.remotes.add(participantId);
+    this.broadcast({ type: "participantJoined", participantId });
+    return kinds.map((kind) => {
+      const producer: ProducerInfo = {
+        participantId,
+        producerId: this.id("producer"),
+        kind,
+        appData: { source: kind === "audio" ? "microphone" : "camera" },
+      };
+      this.producers.push(producer);
+      this.broadcast({ type: "newProducer", ...producer }, participantId);
+      return producer;
+    });
+  }
+
+  /** A remote participant stops publishing one producer. */
+  public closeRemoteProducer(producerId: string): void {
+    const producer = this.producers.find((p) => p.producerId === producerId);
+    if (!producer) return;
+    this.producers = this.producers.filter((p) => p !== producer);
+    this.broadcast({ type: "producerClosed", ...producer });
+  }
+
+  /** Removes a remote participant and tells everyone they left. */
+  public removeRemote(participantId: string): void {
+    this.producers = this.producers.filter(
+      (p) => p.participantId !== participantId,
+    );
+    this.participants.delete(participantId);
+    this.remotes.delete(participantId);
+    this.broadcast({ type: "participantLeft", participantId });
+    this.lowerHands((hand) => hand.participantId === participantId);
+  }
+
+  /** A remote participant raises their hand or sends a reaction. */
+  public signalFrom(participantId: string, signal: RoomSignal): void {
+    this.handleSignal(participantId, signal);
+  }
+
+  /** A remote participant starts, pauses or stops recording. */
+  public recordingFrom(participantId: string, state: RecordingState): void {
+    this.setRecordingState(participantId, state);
+  }
+
+  /**
+   * Turns the waiting room on, as a host would. `hostId` stands in for a
+   * remote host when the client under test should be a guest.
+   */
+  public enableWaitingRoom(hostId?: string): void {
+    this.waitingRoom = true;
+    this.hostId ??= hostId;
+  }
+
+  /** A remote participant knocks on the waiting room. */
+  public knock(participantId: string): void {
+    this.waiting.set(participantId, undefined);
+    this.notifyHost();
+  }
+
+  /** Admits waiting participants, as a remote host would; all if none given. */
+  public admit(participantIds?: string[]): string[] {
+    const admitted = this.takeWaiting(participantIds);
+    for (const [participantId, socket] of admitted) {
+      this.members.add(participantId);
+      socket?.deliver({ type: "admitted" });
+    }
+    return [...admitted.keys()];
+  }
+
+  /** Turns waiting participants away and hangs up on them; all if none given. */
+  public deny(participantIds?: string[], reason?: string): string[] {
+    const denied = this.takeWaiting(participantIds);
+    for (const socket of denied.values()) {
+      socket?.deliver({ type: "denied", reason });
+      if (socket) setTimeout(() => socket.close(), 0);
+    }
+    return [...denied.keys()];
+  }
+
+  /** Drops a participant's connection, as a network failure would. */
+  public disconnect(participantId: string): void {
+    this.participants.get(participantId)?.close();
+  }
+
+  /** Pushes a message to one connected participant. */
+  public push(participantId: string, message: ServerMessage): void {
+    this.participants.get(participantId)?.deliver(message);
+  }
+
+  /* ─── Socket plumbing ──────────────────────────────────────────────── */
+
+  public accept(socket: FakeWebSocket): void {
+    this.sockets.push(socket);
+    setTimeout(() => {
+      if (socket.readyState === FakeWebSocket.CONNECTING) socket.open();
+    }, 0);
+  }
+
+  public detach(socket: FakeWebSocket): void {
+    const { participantId } = socket;
+    if (participantId && this.participants.get(participantId) === socket) {
+      this.participants.delete(participantId);
+    }
+    if (participantId && this.waiting.get(participantId) === socket) {
+      this.waiting.delete(participantId);
+      this.notifyHost();
+    }
+  }
+
+  public receive(
+    socket: FakeWebSocket,
+    message: ClientMessage & { requestId?: number },
+  ): void {
+    this.received.push(message);
+    const type = message.type as RequestType;
+    if (this.unanswered.has(type)) return;
+
+    const failure = this.failures.get(type);
+    this.failures.delete(type);
+    const reply: ServerMessage =
+      failure !== undefined
+        ? { type: "error", message: failure }
+        : this.handle(socket, message);
+    socket.deliver({ ...reply, requestId: message.requestId });
+
+    const hook = this.hooks.get(type);
+    this.hooks.delete(type);
+    hook?.();
+  }
+
+  private handle(socket: FakeWebSocket, message: ClientMessage): ServerMessage {
+    switch (message.type) {
+      case "join": {
+        if (this.locked && !this.members.has(message.participantId)) {
+          return { type: "error", message: "Room is locked" };
+        }
+        socket.participantId = message.participantId;
+        // an empty room has no host to admit anyone, so its first joiner
+        // walks in and hosts
+        if (
+          this.waitingRoom &&
+          this.hostId !== undefined &&
+          !this.members.has(message.participantId)
+        ) {
+          this.waiting.set(message.participantId, socket);
+          this.notifyHost();
+          return { type: "waiting" };
+        }
+        this.members.add(message.participantId);
+        this.hostId ??= message.participantId;
+        this.participants.set(message.participantId, socket);
+        this.broadcast(
+          { type: "participantJoined", participantId: message.participantId },
+          message.participantId,
+        );
+        const isHost = this.hostId === message.participantId;
+        return {
+          type: "joined",
+          role: isHost ? "host" : "guest",
+          locked: this.locked,
+          waitingRoom: this.waitingRoom,
+          waiting: isHost ? this.waitingList() : undefined,
+          raisedHands: this.raisedHands,
+          recordingParticipants: [...this.recorders],
+          participants: this.identities(message.participantId),
+          existingProducers: this.producers.filter(
+            (p) => p.participantId !== message.participantId,
+          ),
+          existingDataProducers: this.dataProducers.filter(
+            (p) => p.participantId !== message.participantId,
+          ),
+        };
+      }
+      case "getRtpCapabilities":
+        return { type: "rtpCapabilities", data: ROUTER_RTP_CAPABILITIES };
+      case "createProducerTransport":
+        return { type: "producerTransportCreated", data: this.transport() };
+      case "connectProducerTransport":
+        return { type: "producerTransportConnected" };
+      case "createConsumerTransport":
+        return { type: "consumerTransportCreated", data: this.transport() };
+      case "connectConsumerTransport":
+        return { type: "consumerTransportConnected" };
+      case "produce": {
+        const producer: ProducerInfo = {
+          participantId: message.participantId,
+          producerId: this.id("producer"),
+          kind: message.kind,
+          appData: message.appData,
+        };
+        this.producers.push(producer);
+        this.broadcast(
+          { type: "newProducer", ...producer },
+          message.participantId,
+        );
+        return { type: "produced", id: producer.producerId };
+      }
+      case "consume": {
+        const producer = this.producers.find(
+          (p) => p.producerId === message.producerId,
+        );
+        if (!producer) {
+          return { type: "error", message: "Producer not found" };
+        }
+        const id = this.id("consumer");
+        this.consumers.set(id, producer.producerId);
+        return {
+          type: "consumed",
+          data: {
+            id,
+            producerId: producer.producerId,
+            kind: producer.kind,
+            rtpParameters: { codecs: [] },
+          },
+        };
+      }
+      case "pauseConsumer":
+      case "resumeConsumer": {
+        const producerId = this.consumers.get(message.consumerId);
+        if (!producerId) return { type: "error", message: "Unknown consumer" };
+        return {
+          type:
+            message.type === "pauseConsumer"
+              ? "consumerPaused"
+              : "consumerResumed",
+          consumerId: message.consumerId,
+          producerId,
+        };
+      }
+      case "restartIce":
+        return {
+          type: "iceRestarted",
+          iceParameters: { usernameFragment: "ufrag", password: "pwd" },
+        };
+      case "setConsumerPreferredLayers":
+        return {
+          type: "consumerPreferredLayersSet",
+          consumerId: message.consumerId,
+        };
+      case "closeProducer":
+      case "pauseProducer":
+      case "resumeProducer": {
+        const producer = this.producers.find(
+          (p) => p.producerId === message.producerId,
+        );
+        if (!producer) return { type: "error", message: "Producer not found" };
+        const type = (
+          {
+            closeProducer: "producerClosed",
+            pauseProducer: "producerPaused",
+            resumeProducer: "producerResumed",
+          } as const
+        )[message.type];
+        if (type === "producerClosed") {
+          this.producers = this.producers.filter((p) => p !== producer);
+        }
+        this.broadcast({ type, ...producer }, message.participantId);
+        return { type, ...producer };
+      }
+      case "chatMessage": {
+        const { participantId, text, sentAt, id } = message;
+        this.broadcast(
+          { type: "chatMessage", participantId, text, sentAt, id },
+          participantId,
+        );
+        return { type: "chatMessageSent" };
+      }
+      case "roomSignal":
+        return this.handleSignal(message.participantId, message.signal);
+      case "setRecordingState":
+        return this.setRecordingState(message.participantId, message.state);
+      case "requestMute":
+      case "closeParticipantProducers":
+      case "kickParticipant":
+      case "setRoomLocked":
+      case "setWaitingRoom":
+      case "admitParticipants":
+      case "denyParticipants":
+        if (message.participantId !== this.hostId) {
+          return { type: "error", message: "Only hosts can do that" };
+        }
+        return this.moderate(message);
+      case "produceData": {
+        if (!this.sctp) return { type: "error", message: "SCTP not enabled" };
+        const dataProducer: DataProducerInfo = {
+          participantId: message.participantId,
+          dataProducerId: this.id("data-producer"),
+          label: message.label,
+        };
+        this.dataProducers.push(dataProducer);
+        this.broadcast(
+          { type: "newDataProducer", ...dataProducer },
+          message.participantId,
+        );
+        return { type: "dataProduced", id: dataProducer.dataProducerId };
+      }
+      case "consumeData": {
+        const dataProducer = this.dataProducers.find(
+          (p) => p.dataProducerId === message.dataProducerId,
+        );
+        if (!this.sctp || !dataProducer) {
+          return { type: "error", message: "Data producer not found" };
+        }
+        return {
+          type: "dataConsumed",
+          data: {
+            id: this.id("data-consumer"),
+            dataProducerId: dataProducer.dataProducerId,
+            sctpStreamParameters: { streamId: 0, ordered: true },
+            label: dataProducer.label,
+          },
+        };
+      }
+    }
+  }
+
+  private moderate(
+    message: Extract<
+      ClientMessage,
+      {
+        type:
+          | "requestMute"
+          | "closeParticipantProducers"
+          | "kickParticipant"
+          | "setRoomLocked"
+          | "setWaitingRoom"
+          | "admitParticipants"
+          | "denyParticipants";
+      }
+    >,
+  ): ServerMessage {
+    const by = message.participantId;
+    switch (message.type) {
+      case "setRoomLocked": {
+        this.locked = message.locked;
+        const update = {
+          type: "roomLockChanged" as const,
+          locked: message.locked,
+          byParticipantId: by,
+        };
+        this.broadcast(update, by);
+        return update;
+      }
+      case "setWaitingRoom": {
+        this.waitingRoom = message.enabled;
+        const update = {
+          type: "waitingRoomChanged" as const,
+          enabled: message.enabled,
+          byParticipantId: by,
+        };
+        this.broadcast(update, by);
+        return update;
+      }
+      case "admitParticipants":
+        return {
+          type: "participantsAdmitted",
+          participantIds: this.admit(message.targetParticipantIds),
+        };
+      case "denyParticipants":
+        return {
+          type: "participantsDenied",
+          participantIds: this.deny(
+            message.targetParticipantIds,
+            message.reason,
+          ),
+        };
+      case "kickParticipant": {
+        const target = message.targetParticipantId;
+        const socket = this.participants.get(target);
+        socket?.deliver({
+          type: "kicked",
+          byParticipantId: by,
+          reason: message.reason,
+        });
+        // hang up once the notice is out
+        if (socket) setTimeout(() => socket.close(), 0);
+        this.removeRemote(target);
+        return { type: "participantKicked", targetParticipantId: target };
+      }
+      case "requestMute":
+      case "closeParticipantProducers": {
+        const target = message.targetParticipantId;
+        const closed = message.type === "closeParticipantProducers";
+        const affected = this.producers.filter(
+          (p) =>
+            p.participantId === target &&
+            p.appData?.source !== "screen" &&
+            (!message.kind || p.kind === message.kind),
+        );
+        for (const producer of affected) {
+          if (closed) {
+            this.producers = this.producers.filter((p) => p !== producer);
+          }
+          this.broadcast(
+            {
+              type: closed ? "producerClosed" : "producerPaused",
+              ...producer,
+            },
+            target,
+          );
+          this.push(target, {
+            type: "forceMuted",
+            kind: producer.kind,
+            closed,
+            byParticipantId: by,
+          });
+        }
+        return closed
+          ? { type: "participantProducersClosed", targetParticipantId: target }
+          : { type: "muteRequested", targetParticipantId: target };
+      }
+    }
+  }
+
+  private handleSignal(from: string, signal: RoomSignal): ServerMessage {
+    const isHost = from === this.hostId;
+    switch (signal.kind) {
+      case "raiseHand":
+        if (!this.raisedHands.some((hand) => hand.participantId === from)) {
+          this.raisedHands = [
+            ...this.raisedHands,
+            { participantId: from, raisedAt: Date.now() },
+          ];
+          this.broadcast({
+            type: "raisedHands",
+            raisedHands: this.raisedHands,
+          });
+        }
+        break;
+      case "lowerHand": {
+        const target = signal.targetParticipantId ?? from;
+        if (target !== from && !isHost) {
+          return { type: "error", message: "Only hosts can do that" };
+        }
+        this.lowerHands((hand) => hand.participantId === target);
+        break;
+      }
+      case "clearHands":
+        if (!isHost)
+          return { type: "error", message: "Only hosts can do that" };
+        this.lowerHands(() => true);
+        break;
+      case "reaction":
+        this.broadcast(
+          { type: "roomSignal", participantId: from, signal },
+          from,
+        );
+        break;
+    }
+    return { type: "roomSignalSent" };
+  }
+
+  private setRecordingState(
+    participantId: string,
+    state: RecordingState,
+  ): ServerMessage {
+    if (state === "stopped") this.recorders.delete(participantId);
+    else this.recorders.add(participantId);
+    const update = {
+      type: "recordingStateChanged" as const,
+      participantId,
+      state,
+    };
+    this.broadcast(update, participantId);
+    return update;
+  }
+
+  private lowerHands(which: (hand: RaisedHand) => boolean): void {
+    const remaining = this.raisedHands.filter((hand) => !which(hand));
+    if (remaining.length === this.raisedHands.length) return;
+    this.raisedHands = remaining;
+    this.broadcast({ type: "raisedHands", raisedHands: remaining });
+  }
+
+  // Removes the given (or all) waiting participants and tells the host.
+  private takeWaiting(
+    participantIds = [...this.waiting.keys()],
+  ): Map<string, FakeWebSocket | undefined> {
+    const taken = new Map<string, FakeWebSocket | undefined>();
+    for (const participantId of participantIds) {
+      if (!this.waiting.has(participantId)) continue;
+      taken.set(participantId, this.waiting.get(participantId));
+      this.waiting.delete(participantId);
+    }
+    if (taken.size > 0) this.notifyHost();
+    return taken;
+  }
+
+  private waitingList(): ParticipantIdentity[] {
+    return [...this.waiting.keys()].map((participantId) => ({
+      participantId,
+      displayName: participantId,
+      role: "guest",
+    }));
+  }
+
+  // Everyone in the room but `except`, as the join reply lists them.
+  private identities(except: string): ParticipantIdentity[] {
+    return [...new Set([...this.remotes, ...this.participants.keys()])]
+      .filter((participantId) => participantId !== except)
+      .map((participantId) => ({
+        participantId,
+        displayName: participantId,
+        role: participantId === this.hostId ? "host" : "guest",
+      }));
+  }
+
+  private notifyHost(): void {
+    if (this.hostId) {
+      this.push(this.hostId, { type: "knock", waiting: this.waitingList() });
+    }
+  }
+
+  private transport() {
+    return {
+      id: this.id("transport"),
+      iceParameters: { usernameFragment: "ufrag", password: "pwd" },
+      iceCandidates: [],
+      dtlsParameters: { fingerprints: [] },
+      ...(this.sctp && {
+        sctpParameters: {
+          port: 5000,
+          OS: 1024,
+          MIS: 1024,
+          maxMessageSize: 262144,
+        },
+      }),
+    };
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}-${this.nextId++}`;
+  }
+
+  private broadcast(message: ServerMessage, except?: string): void {
+    for (const [participantId, socket] of this.participants) {
+      if (participantId !== except) socket.deliver(message);
+    }
+  }
+}
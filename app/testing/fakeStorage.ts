@@ -0,0 +1,14 @@
+import { vi } from "vitest";
+
+/**
+ * Stubs the global localStorage with an empty in-memory one. Returns its
+ * contents, to seed or inspect directly; vi.unstubAllGlobals() removes it.
+ */
+export function stubLocalStorage(): Record<string, string> {
+  const stored: Record<string, string> = {};
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => stored[key] ?? null,
+    setItem: (key: string, value: string) => (stored[key] = value),
+  });
+  return stored;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { arrangeTiles, pageCount, pageOf, videoReceivers } from "./tilePages";
+
+const ROOM = ["a", "b", "c", "d", "e", "f", "g"];
+
+describe("arrangeTiles", () => {
+  it("keeps join order while nobody has spoken", () => {
+    expect(arrangeTiles(ROOM, [], 3)).toEqual(ROOM);
+  });
+
+  it("promotes the most recent speakers onto page one in join order", () => {
+    expect(arrangeTiles(ROOM, ["g", "e", "f", "a"], 3)).toEqual([
+      "e",
+      "f",
+      "g",
+      "a",
+      "b",
+      "c",
+      "d",
+    ]);
+  });
+
+  it("skips speakers who have left", () => {
+    expect(arrangeTiles(["a", "b", "c"], ["x", "c"], 1)).toEqual([
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+});
+
+describe("paging", () => {
+  it("counts at least one page", () => {
+    expect(pageCount(0, 4)).toBe(1);
+    expect(pageCount(8, 4)).toBe(2);
+    expect(pageCount(9, 4)).toBe(3);
+  });
+
+  it("clamps to the last page once people leave", () => {
+    expect(pageOf(ROOM, 1, 3)).toEqual(["d", "e", "f"]);
+    expect(pageOf(ROOM, 5, 3)).toEqual(["g"]);
+    expect(pageOf([], 2, 3)).toEqual([]);
+  });
+});
+
+describe("videoReceivers", () => {
+  it("receives only the tiles on screen", () => {
+    expect(videoReceivers(["a", "b"], ROOM, false)).toEqual(["a", "b"]);
+  });
+
+  it("keeps everyone's video while a local recording runs", () => {
+    expect(videoReceivers(["a", "b"], ROOM, true)).toEqual(ROOM);
+  });
+});
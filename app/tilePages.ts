@@ -0,0 +1,48 @@
+/* ─── Grid pages ─────────────────────────────────────────────────────────────
+   Large rooms show the grid a page at a time. Page one belongs to whoever
+   spoke last; everyone else keeps join order, so pages only change when
+   someone new speaks up rather than on every sentence.
+─────────────────────────────────────────────────────────────────────────── */
+
+/**
+ * Orders participant ids for a paged grid: the `pageSize` most recent
+ * speakers fill page one, the rest follow in join order. Page one keeps
+ * join order too, so a new speaker swaps in without the others moving.
+ */
+export function arrangeTiles(
+  joinOrder: string[],
+  recentSpeakers: string[],
+  pageSize: number,
+): string[] {
+  const present = new Set(joinOrder);
+  const promoted = new Set(
+    recentSpeakers.filter((id) => present.has(id)).slice(0, pageSize),
+  );
+  return [
+    ...joinOrder.filter((id) => promoted.has(id)),
+    ...joinOrder.filter((id) => !promoted.has(id)),
+  ];
+}
+
+export function pageCount(tiles: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(tiles / pageSize));
+}
+
+/** The ids on `page` (0-based), clamped to the last page there is. */
+export function pageOf<T>(ordered: T[], page: number, pageSize: number): T[] {
+  const last = pageCount(ordered.length, pageSize) - 1;
+  const start = Math.min(Math.max(page, 0), last) * pageSize;
+  return ordered.slice(start, start + pageSize);
+}
+
+/**
+ * Whose video to keep receiving. Normally just the tiles on screen, but a
+ * local recording draws everyone, so nobody is paused while one runs.
+ */
+export function videoReceivers(
+  onScreen: string[],
+  everyone: string[],
+  recording: boolean,
+): string[] {
+  return recording ? everyone : onScreen;
+}
@@ -0,0 +1,131 @@
+import { resumeAudioContext } from "./audioContext";
+
+/* ─── Voice activity detection over Web Audio ───────────────────────────────
+   One AudioContext, one AnalyserNode per participant's audio track. Every
+   POLL_INTERVAL_MS we measure each track's RMS level; a track counts as
+   speaking once it crosses SPEAKING_THRESHOLD_DB and keeps counting for
+   HANGOVER_MS after it drops, so brief pauses between words don't flicker.
+─────────────────────────────────────────────────────────────────────────── */
+
+export interface VoiceActivityState {
+  // ids currently speaking
+  speaking: Set<string>;
+  // most recent speaker first; ids that never spoke are absent
+  recentSpeakers: string[];
+  // loudest current speaker, sticky until someone else takes over
+  activeSpeaker: string | null;
+}
+
+interface Source {
+  track: MediaStreamTrack;
+  node: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  lastVoiceAt: number;
+}
+
+const POLL_INTERVAL_MS = 100;
+const SPEAKING_THRESHOLD_DB = -50;
+const HANGOVER_MS = 600;
+
+export class VoiceActivityDetector {
+  private context = new AudioContext();
+  private sources = new Map<string, Source>();
+  private buffer = new Float32Array(1024);
+  private speaking = new Set<string>();
+  private recentSpeakers: string[] = [];
+  private activeSpeaker: string | null = null;
+  private onChange: (state: VoiceActivityState) => void;
+  private timer: ReturnType<typeof setInterval>;
+
+  constructor(onChange: (state: VoiceActivityState) => void) {
+    this.onChange = onChange;
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  /** Starts (or stops, with no track) watching `id`. Idempotent. */
+  public setTrack(id: string, track?: MediaStreamTrack): void {
+    const existing = this.sources.get(id);
+    if (existing?.track === track) return;
+    if (existing) this.removeSource(id, existing);
+    if (!track) return;
+
+    resumeAudioContext(this.context);
+
+    const node = this.context.createMediaStreamSource(new MediaStream([track]));
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = this.buffer.length;
+    node.connect(analyser);
+    this.sources.set(id, { track, node, analyser, lastVoiceAt: 0 });
+  }
+
+  /** Drops every id not in `ids`. */
+  public retain(ids: Iterable<string>): void {
+    const keep = new Set(ids);
+    for (const [id, source] of this.sources) {
+      if (!keep.has(id)) this.removeSource(id, source);
+    }
+  }
+
+  public close(): void {
+    clearInterval(this.timer);
+    for (const [id, source] of this.sources) this.removeSource(id, source);
+    this.context.close().catch(() => {});
+  }
+
+  private removeSource(id: string, source: Source): void {
+    source.node.disconnect();
+    this.sources.delete(id);
+    this.speaking.delete(id);
+  }
+
+  private levelDb(analyser: AnalyserNode): number {
+    analyser.getFloatTimeDomainData(this.buffer);
+    let sum = 0;
+    for (const sample of this.buffer) sum += sample * sample;
+    const rms = Math.sqrt(sum / this.buffer.length);
+    return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+  }
+
+  private poll(): void {
+    const now = Date.now();
+    const speaking = new Set<string>();
+    let loudest: { id: string; level: number } | null = null;
+
+    for (const [id, source] of this.sources) {
+      const level = source.track.enabled
+        ? this.levelDb(source.analyser)
+        : -Infinity;
+      if (level > SPEAKING_THRESHOLD_DB) {
+        source.lastVoiceAt = now;
+        if (!loudest || level > loudest.level) loudest = { id, level };
+      }
+      if (now - source.lastVoiceAt < HANGOVER_MS) speaking.add(id);
+    }
+
+    const started = [...speaking].filter((id) => !this.speaking.has(id));
+    const changed = started.length > 0 || speaking.size !== this.speaking.size;
+    this.speaking = speaking;
+
+    if (started.length > 0) {
+      this.recentSpeakers = [
+        ...started,
+        ...this.recentSpeakers.filter((id) => !started.includes(id)),
+      ];
+    }
+
+    // Only hand over once the current active speaker has gone quiet.
+    const activeChanged =
+      !!loudest &&
+      loudest.id !== this.activeSpeaker &&
+      !(this.activeSpeaker && speaking.has(this.activeSpeaker));
+    if (activeChanged) this.activeSpeaker = loudest!.id;
+
+    if (changed || activeChanged) {
+      this.onChange({
+        speaking: new Set(this.speaking),
+        recentSpeakers: [...this.recentSpeakers],
+        activeSpeaker: this.activeSpeaker,
+      });
+    }
+  }
+}
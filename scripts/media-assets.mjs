@@ -0,0 +1,57 @@
+/* ─── Self-hosted media assets ──────────────────────────────────────────────
+   Copies the WASM the in-browser media processing loads at runtime out of
+   node_modules into public/, so the versions always match the installed
+   packages and the browser only ever fetches them from our own origin.
+   Models that npm doesn't ship are downloaded once and kept. Runs before
+   `dev` and `build`.
+─────────────────────────────────────────────────────────────────────────── */
+
+import { cpSync, existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const publicDir = join(root, "public");
+
+// [package directory, destination under public/]
+const COPIES = [
+  ["@mediapipe/tasks-vision/wasm", "mediapipe/wasm"],
+  ...[
+    "rnnoise.wasm",
+    "rnnoise_simd.wasm",
+    "rnnoise/workletProcessor.js",
+    "noiseGate/workletProcessor.js",
+  ].map((file) => [
+    `@sapphi-red/web-noise-suppressor/dist/${file}`,
+    `noise-suppressor/${file}`,
+  ]),
+];
+
+// [source URL, destination under public/]
+const DOWNLOADS = [
+  [
+    "https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite",
+    "mediapipe/selfie_segmenter.tflite",
+  ],
+];
+
+for (const [from, to] of COPIES) {
+  cpSync(join(root, "node_modules", from), join(publicDir, to), {
+    recursive: true,
+  });
+}
+
+for (const [url, to] of DOWNLOADS) {
+  const target = join(publicDir, to);
+  if (existsSync(target)) continue;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+  } catch (error) {
+    // Offline builds still work; the feature that needs it is unavailable
+    // until the file is put in place by hand.
+    console.warn(`Could not download ${url} to public/${to}: ${error}`);
+  }
+}